@@ -0,0 +1,375 @@
+#!/usr/bin/env node
+import * as fs from "fs";
+import {
+  PedigreeEntry,
+  PedigreeValidationCheck,
+  PedigreeValidationOptionValue,
+  PedigreeValidationOptions,
+  PedigreeValidationResult,
+  permissive,
+  strict,
+  validatePedigree,
+  validationRules,
+} from "./pedigree";
+import { PedigreeNormalizationOptions, normalizePedigree, plinkMissingIdentifiers, plinkSexEncoding } from "./normalize";
+import { formatPed, parsePed } from "./ped";
+import { formatGedcom, parseGedcom } from "./gedcom";
+import { readPhenopacketFamily, writePhenopacketFamily } from "./phenopacket";
+import { crossCheckSamples, parseVcfSamples } from "./samples";
+import { Pedigree } from "./model";
+
+/**
+ * Where the command line reads and writes, so that it can be run without a process.
+ */
+export interface CliIO {
+  /**
+   * Read a file, or standard input for "-".
+   */
+  read: (path: string) => string;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+export type CliFormat = "ped" | "json" | "gedcom" | "phenopacket";
+
+const formats: CliFormat[] = ["ped", "json", "gedcom", "phenopacket"];
+
+const usage = `Usage: pedigree-tools <command> [options] <file>
+
+Commands:
+  validate    check a pedigree, exiting with 1 if it is not ok
+  convert     write a pedigree in another format (--to)
+  normalize   write a pedigree with sex, affection status and missing parents in canonical form
+  stats       summarise a pedigree
+
+Options:
+  --from=ped|json|gedcom|phenopacket   input format (default: from the file name, or ped)
+  --to=ped|json|gedcom|phenopacket     output format for convert and normalize (default: json)
+  --output=text|json                   how to print results of validate and stats (default: text)
+  --preset=strict|permissive           validation options (default: strict)
+  --<check>=ignore|warning|error       override one validation option, e.g. --cycles=warning
+  --plink                              use PLINK codes for sex and missing parents
+  --samples=<file>                     validate: check against the samples in a VCF, or listed one per line
+  --help                               print this message
+
+Use "-" as the file to read standard input.
+`;
+
+class UsageError extends Error {}
+
+interface CliArgs {
+  command: string;
+  file: string;
+  flags: { [name: string]: string };
+}
+
+function parseArgs(args: string[]): CliArgs {
+  const positional: string[] = [];
+  const flags: { [name: string]: string } = {};
+  for (const arg of args) {
+    const m = /^--([^=]+)(?:=(.*))?$/.exec(arg);
+    if (m) {
+      flags[m[1]] = m[2] === undefined ? "true" : m[2];
+    } else {
+      positional.push(arg);
+    }
+  }
+  if ("help" in flags) {
+    return { command: "help", file: "", flags };
+  }
+  if (positional.length != 2) {
+    throw new UsageError("Expected a command and a file.");
+  }
+  return { command: positional[0], file: positional[1], flags };
+}
+
+function choice<T extends string>(flags: { [name: string]: string }, name: string, values: T[], dflt: T): T {
+  if (!(name in flags)) {
+    return dflt;
+  }
+  const value = flags[name] as T;
+  if (!values.includes(value)) {
+    throw new UsageError(`--${name} must be one of ${values.join(", ")}.`);
+  }
+  return value;
+}
+
+function inputFormat(args: CliArgs, text: string): CliFormat {
+  if ("from" in args.flags) {
+    return choice(args.flags, "from", formats, "ped");
+  }
+  if (/\.json$/i.test(args.file)) {
+    return /"persons"/.test(text) ? "phenopacket" : "json";
+  }
+  if (/\.ged$/i.test(args.file)) {
+    return "gedcom";
+  }
+  return "ped";
+}
+
+function validationOptions(flags: { [name: string]: string }): PedigreeValidationOptions {
+  const preset = choice(flags, "preset", ["strict", "permissive"], "strict");
+  const options: PedigreeValidationOptions = { ...(preset == "strict" ? strict : permissive) };
+  const general = ["from", "to", "output", "preset", "plink", "samples"];
+  for (const name in flags) {
+    if (general.includes(name)) {
+      continue;
+    }
+    const value = () => choice<PedigreeValidationOptionValue>(flags, name, ["ignore", "warning", "error"], "error");
+    if (Object.prototype.hasOwnProperty.call(strict, name)) {
+      options[name as PedigreeValidationCheck] = value();
+    } else if (validationRules().some((rule) => rule.name == name)) {
+      options.rules = { ...options.rules, [name]: value() };
+    } else {
+      throw new UsageError(`Unknown option --${name}.`);
+    }
+  }
+  return options;
+}
+
+/**
+ * Read a pedigree in any of the supported formats, reporting (and failing on) parse errors.
+ */
+function readPedigree(args: CliArgs, io: CliIO): PedigreeEntry[] | null {
+  let text: string;
+  try {
+    text = io.read(args.file);
+  } catch (e) {
+    io.stderr(`${args.file}: cannot be read.\n`);
+    return null;
+  }
+  switch (inputFormat(args, text)) {
+    case "ped": {
+      const res = parsePed(text);
+      for (const err of res.errors) {
+        io.stderr(`${args.file}:${err.line}: ${err.message}\n`);
+      }
+      return res.ok ? res.entries : null;
+    }
+    case "json": {
+      let ped: unknown;
+      try {
+        ped = JSON.parse(text);
+      } catch (e) {
+        io.stderr(`${args.file}: not valid JSON.\n`);
+        return null;
+      }
+      if (!Array.isArray(ped)) {
+        io.stderr(`${args.file}: expected a JSON array of pedigree entries.\n`);
+        return null;
+      }
+      let ok = true;
+      ped.forEach((entry: unknown, i) => {
+        if (typeof entry != "object" || entry === null || Array.isArray(entry)) {
+          io.stderr(`${args.file}: entry ${i + 1}: expected an object.\n`);
+          ok = false;
+          return;
+        }
+        const missing = ["family", "sample", "sex"].filter((field) => !(field in entry));
+        if (missing.length > 0) {
+          io.stderr(`${args.file}: entry ${i + 1}: missing ${missing.join(", ")}.\n`);
+          ok = false;
+        }
+      });
+      return ok ? ped : null;
+    }
+    case "gedcom": {
+      const res = parseGedcom(text);
+      for (const err of res.errors) {
+        io.stderr(`${args.file}:${err.line}: ${err.message}\n`);
+      }
+      for (const warning of res.warnings) {
+        io.stderr(`${args.file}:${warning.line}: warning: ${warning.message}\n`);
+      }
+      return res.ok ? res.entries : null;
+    }
+    case "phenopacket": {
+      const res = readPhenopacketFamily(text);
+      for (const issue of res.issues) {
+        io.stderr(`${args.file}: ${issue.severity}: ${issue.detail || issue.message}\n`);
+      }
+      return res.ok ? res.entries : null;
+    }
+  }
+}
+
+/**
+ * Read the samples with data from the header of a VCF file, or failing that, one per line.
+ */
+function readSamples(path: string, io: CliIO): string[] | null {
+  let text: string;
+  try {
+    text = io.read(path);
+  } catch (e) {
+    io.stderr(`${path}: cannot be read.\n`);
+    return null;
+  }
+  const vcf = parseVcfSamples(text);
+  if (vcf !== undefined) {
+    return vcf;
+  }
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith("#"));
+}
+
+function writePedigree(
+  ped: PedigreeEntry[],
+  format: CliFormat,
+  io: CliIO,
+  normalization: Partial<PedigreeNormalizationOptions>
+): void {
+  switch (format) {
+    case "ped": {
+      io.stdout(formatPed(ped, {}, {}, normalization));
+      break;
+    }
+    case "json": {
+      io.stdout(JSON.stringify(ped, null, 2) + "\n");
+      break;
+    }
+    case "gedcom": {
+      io.stdout(formatGedcom(ped, {}, normalization));
+      break;
+    }
+    case "phenopacket": {
+      const res = writePhenopacketFamily(ped, {}, normalization);
+      for (const issue of res.issues) {
+        io.stderr(`${issue.severity}: ${issue.detail || issue.message}\n`);
+      }
+      io.stdout(JSON.stringify(res.family, null, 2) + "\n");
+      break;
+    }
+  }
+}
+
+function formatResult(result: PedigreeValidationResult): string {
+  const lines: string[] = [];
+  for (const issue of result.issues) {
+    const who = issue.individuals.length > 0 ? ` ${issue.individuals.join(",")}` : "";
+    lines.push(`${issue.severity.toUpperCase()} ${issue.code}${who}: ${issue.detail || issue.message}`);
+  }
+  const errors = result.issues.filter((issue) => issue.severity == "error").length;
+  const warnings = result.issues.length - errors;
+  lines.push(result.ok && warnings == 0 ? "OK" : `${errors} error(s), ${warnings} warning(s).`);
+  return lines.map((line) => line + "\n").join("");
+}
+
+/**
+ * Counts of families, individuals (including implied parents), sexes,
+ * affection status, founders, generations and mating pairs.
+ */
+function pedigreeStats(norm: PedigreeEntry[]): { [name: string]: number } {
+  const P = new Pedigree(norm);
+  const whos = P.individuals();
+  const count = (pred: (row: PedigreeEntry) => boolean) => norm.filter(pred).length;
+  const depths = whos.map((who) => P.generation(who)).filter((g) => g !== undefined);
+  return {
+    families: new Set(norm.map((row) => row.family)).size,
+    individuals: whos.length,
+    rows: norm.length,
+    males: count((row) => row.sex == "Male"),
+    females: count((row) => row.sex == "Female"),
+    unknownSex: count((row) => row.sex !== "Male" && row.sex !== "Female"),
+    affected: count((row) => row.affected == "Affected"),
+    unaffected: count((row) => row.affected == "Unaffected"),
+    founders: P.founders().length,
+    generations: depths.length == 0 ? 0 : Math.max(...depths) + 1,
+    matingPairs: P.matingPairs().length,
+  };
+}
+
+/**
+ * Run the command line with the given arguments (not including the program name),
+ * returning the exit status: 0 for success, 1 if validation failed, 2 for usage or input errors.
+ */
+export function runCli(args: string[], io: CliIO): number {
+  let parsed: CliArgs;
+  try {
+    parsed = parseArgs(args);
+    if (parsed.command == "help") {
+      io.stdout(usage);
+      return 0;
+    }
+    const output = choice(parsed.flags, "output", ["text", "json"], "text");
+    const to = choice(parsed.flags, "to", formats, "json");
+    const normalization: Partial<PedigreeNormalizationOptions> =
+      "plink" in parsed.flags ? { sex: plinkSexEncoding, missing: plinkMissingIdentifiers } : {};
+
+    switch (parsed.command) {
+      case "validate": {
+        const options = validationOptions(parsed.flags);
+        const ped = readPedigree(parsed, io);
+        if (ped === null) {
+          return 2;
+        }
+        const result = validatePedigree(ped, options, normalization);
+        if ("samples" in parsed.flags) {
+          const samples = readSamples(parsed.flags.samples, io);
+          if (samples === null) {
+            return 2;
+          }
+          const checked = crossCheckSamples(ped, samples, options, normalization);
+          result.ok = result.ok && checked.ok;
+          result.reasons.push(...checked.reasons);
+          result.issues.push(...checked.issues);
+          for (const who of checked.problematic) {
+            result.problematic.add(who);
+            result.whys[who] = [...(result.whys[who] || []), ...checked.whys[who]];
+          }
+        }
+        if (output == "json") {
+          io.stdout(JSON.stringify({ ...result, problematic: [...result.problematic] }, null, 2) + "\n");
+        } else {
+          io.stdout(formatResult(result));
+        }
+        return result.ok ? 0 : 1;
+      }
+      case "convert":
+      case "normalize": {
+        const ped = readPedigree(parsed, io);
+        if (ped === null) {
+          return 2;
+        }
+        writePedigree(parsed.command == "normalize" ? normalizePedigree(ped, normalization) : ped, to, io, normalization);
+        return 0;
+      }
+      case "stats": {
+        const ped = readPedigree(parsed, io);
+        if (ped === null) {
+          return 2;
+        }
+        const stats = pedigreeStats(normalizePedigree(ped, normalization));
+        if (output == "json") {
+          io.stdout(JSON.stringify(stats, null, 2) + "\n");
+        } else {
+          io.stdout(
+            Object.keys(stats)
+              .map((name) => `${name}\t${stats[name]}\n`)
+              .join("")
+          );
+        }
+        return 0;
+      }
+      default: {
+        throw new UsageError(`Unknown command "${parsed.command}".`);
+      }
+    }
+  } catch (e) {
+    if (e instanceof UsageError) {
+      io.stderr(`${e.message}\n\n${usage}`);
+      return 2;
+    }
+    throw e;
+  }
+}
+
+if (require.main === module) {
+  const io: CliIO = {
+    read: (path) => fs.readFileSync(path == "-" ? 0 : path, "utf8"),
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+  };
+  process.exitCode = runCli(process.argv.slice(2), io);
+}
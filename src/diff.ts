@@ -0,0 +1,254 @@
+import {
+  DefiniteIdentifier,
+  Identifier,
+  PedigreeEntry,
+  PedigreeValidationIssue,
+  PedigreeValidationOptions,
+  SexValue,
+  strict,
+  validatePedigree,
+} from "./pedigree";
+import { PedigreeNormalizationOptions, defaultSexEncoding, normalizePedigree, normalizeSex } from "./normalize";
+
+export type PedigreeChangeKind = "added" | "removed" | "renamed" | "father" | "mother" | "sex" | "family";
+
+export interface PedigreeChange {
+  kind: PedigreeChangeKind;
+
+  /**
+   * The individual's identifier in the later version, or in the earlier version if they were removed.
+   */
+  sample: DefiniteIdentifier;
+  before: Identifier | SexValue;
+  after: Identifier | SexValue;
+  description: string;
+}
+
+export interface PedigreeDiffOptions {
+  /**
+   * How to interpret sex and missing parents in both versions.
+   * Default: {} => the defaults of `normalizePedigree`.
+   */
+  normalization: Partial<PedigreeNormalizationOptions>;
+
+  /**
+   * The checks used to compare the validation problems of the two versions.
+   * Default: strict.
+   */
+  validation: PedigreeValidationOptions;
+}
+
+export const defaultDiffOptions: PedigreeDiffOptions = {
+  normalization: {},
+  validation: strict,
+};
+
+export interface PedigreeDiff {
+  changes: PedigreeChange[];
+
+  /**
+   * A one-line count of the changes, e.g. "1 added, 2 fathers changed."
+   */
+  summary: string;
+
+  /**
+   * Validation issues in the later version that were not in the earlier one.
+   */
+  introduced: PedigreeValidationIssue[];
+
+  /**
+   * Validation issues in the earlier version that are not in the later one.
+   */
+  resolved: PedigreeValidationIssue[];
+}
+
+function firstRows(ped: PedigreeEntry[]): Map<DefiniteIdentifier, PedigreeEntry> {
+  const res = new Map<DefiniteIdentifier, PedigreeEntry>();
+  for (const row of ped) {
+    if (!res.has(row.sample)) {
+      res.set(row.sample, row);
+    }
+  }
+  return res;
+}
+
+function renamed(renames: Map<DefiniteIdentifier, DefiniteIdentifier>, who: Identifier | undefined): Identifier {
+  if (who === null || who === undefined) {
+    return null;
+  }
+  return renames.has(who) ? renames.get(who) : who;
+}
+
+function show(value: Identifier | SexValue | undefined): string {
+  return value === null || value === undefined ? "unknown" : String(value);
+}
+
+/**
+ * Find individuals who have been given a new identifier: someone no longer present
+ * whose family, sex, parents and children match exactly one new individual. Relatives
+ * who are not yet matched up match each other, and matching is repeated so that
+ * renaming parents can reveal renamed children, and vice versa. Individuals with
+ * no parents or children are never matched, as there is nothing to go on.
+ */
+function findRenames(
+  before: Map<DefiniteIdentifier, PedigreeEntry>,
+  after: Map<DefiniteIdentifier, PedigreeEntry>
+): Map<DefiniteIdentifier, DefiniteIdentifier> {
+  const renames = new Map<DefiniteIdentifier, DefiniteIdentifier>();
+  const kidsOf = (rows: Map<DefiniteIdentifier, PedigreeEntry>) => {
+    const res = new Map<DefiniteIdentifier, DefiniteIdentifier[]>();
+    for (const row of rows.values()) {
+      for (const par of [row.father, row.mother]) {
+        if (par !== null && par !== undefined) {
+          res.set(par, [...(res.get(par) || []), row.sample]);
+        }
+      }
+    }
+    return res;
+  };
+  const oldKids = kidsOf(before);
+  const newKids = kidsOf(after);
+  const signature = (row: PedigreeEntry, kids: DefiniteIdentifier[], resolve: (who: Identifier) => Identifier | "?") =>
+    JSON.stringify([row.family, row.sex, resolve(row.father), resolve(row.mother), kids.map(resolve).map(String).sort()]);
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    const claimed = new Set<DefiniteIdentifier>(renames.values());
+    // Relatives in both versions (or already matched up) must be the same
+    // on both sides, and those yet to be matched up are written as "?".
+    const kept = (who: DefiniteIdentifier) => before.has(who) && after.has(who);
+    const resolveOld = (who: Identifier) =>
+      who === null ? null : renames.has(who) ? renames.get(who) : kept(who) || !before.has(who) ? who : "?";
+    const resolveNew = (who: Identifier) => (who === null ? null : kept(who) || claimed.has(who) || !after.has(who) ? who : "?");
+
+    const candidates = new Map<string, DefiniteIdentifier[]>();
+    for (const who of after.keys()) {
+      if (!before.has(who) && !claimed.has(who)) {
+        const sig = signature(after.get(who), newKids.get(who) || [], resolveNew);
+        candidates.set(sig, [...(candidates.get(sig) || []), who]);
+      }
+    }
+    const wanted = new Map<string, DefiniteIdentifier[]>();
+    for (const who of before.keys()) {
+      const row = before.get(who);
+      const kids = oldKids.get(who) || [];
+      if (after.has(who) || renames.has(who) || (row.father === null && row.mother === null && kids.length == 0)) {
+        continue;
+      }
+      const sig = signature(row, kids, resolveOld);
+      wanted.set(sig, [...(wanted.get(sig) || []), who]);
+    }
+    for (const [sig, whos] of wanted) {
+      const matches = candidates.get(sig) || [];
+      if (whos.length == 1 && matches.length == 1) {
+        renames.set(whos[0], matches[0]);
+        changed = true;
+      }
+    }
+  }
+  return renames;
+}
+
+/**
+ * Compare two versions of a pedigree: who was added, removed or renamed, whose parents,
+ * sex or family changed, and which validation problems were introduced or resolved.
+ */
+export function diffPedigrees(
+  before: PedigreeEntry[],
+  after: PedigreeEntry[],
+  options: Partial<PedigreeDiffOptions> = {}
+): PedigreeDiff {
+  const opts: PedigreeDiffOptions = { ...defaultDiffOptions, ...options };
+  const old = firstRows(normalizePedigree(before, opts.normalization));
+  const cur = firstRows(normalizePedigree(after, opts.normalization));
+  const renames = findRenames(old, cur);
+  const map = (who: Identifier | undefined) => renamed(renames, who);
+  const encoding = opts.normalization.sex || defaultSexEncoding;
+  const sexOf = (sex: PedigreeEntry["sex"]) => {
+    const canonical = normalizeSex(sex, encoding);
+    return canonical === undefined ? sex : canonical;
+  };
+
+  const changes: PedigreeChange[] = [];
+  for (const [who, row] of old) {
+    if (!cur.has(who) && !renames.has(who)) {
+      changes.push({ kind: "removed", sample: who, before: who, after: null, description: `Removed ${who}.` });
+      continue;
+    }
+    const now = map(who);
+    if (now !== who) {
+      changes.push({ kind: "renamed", sample: now, before: who, after: now, description: `Renamed ${who} to ${now}.` });
+    }
+    const next = cur.get(now);
+    for (const role of ["father", "mother"] as const) {
+      if (map(row[role]) !== next[role]) {
+        changes.push({
+          kind: role,
+          sample: now,
+          before: row[role],
+          after: next[role],
+          description: `Changed the ${role} of ${now} from ${show(row[role])} to ${show(next[role])}.`,
+        });
+      }
+    }
+    if (sexOf(row.sex) !== sexOf(next.sex)) {
+      changes.push({
+        kind: "sex",
+        sample: now,
+        before: row.sex,
+        after: next.sex,
+        description: `Changed the sex of ${now} from ${show(row.sex)} to ${show(next.sex)}.`,
+      });
+    }
+    if (row.family !== next.family) {
+      changes.push({
+        kind: "family",
+        sample: now,
+        before: row.family,
+        after: next.family,
+        description: `Moved ${now} from family ${row.family} to ${next.family}.`,
+      });
+    }
+  }
+  const renamedTo = new Set<DefiniteIdentifier>(renames.values());
+  for (const who of cur.keys()) {
+    if (!old.has(who) && !renamedTo.has(who)) {
+      changes.push({ kind: "added", sample: who, before: null, after: who, description: `Added ${who}.` });
+    }
+  }
+
+  // Issues are the same if they have the same code, detail and individuals,
+  // allowing for renaming.
+  //
+  const key = (issue: PedigreeValidationIssue, rename: boolean) =>
+    JSON.stringify([issue.code, issue.detail, issue.individuals.map((who) => (rename ? map(who) : who))]);
+  const was = validatePedigree(before, opts.validation, opts.normalization).issues;
+  const is = validatePedigree(after, opts.validation, opts.normalization).issues;
+  const wasKeys = new Set<string>(was.map((issue) => key(issue, true)));
+  const isKeys = new Set<string>(is.map((issue) => key(issue, false)));
+
+  const counts: string[] = [];
+  const labels: [PedigreeChangeKind, string][] = [
+    ["added", "added"],
+    ["removed", "removed"],
+    ["renamed", "renamed"],
+    ["father", "fathers changed"],
+    ["mother", "mothers changed"],
+    ["sex", "sexes changed"],
+    ["family", "moved between families"],
+  ];
+  for (const [kind, label] of labels) {
+    const n = changes.filter((change) => change.kind == kind).length;
+    if (n > 0) {
+      counts.push(`${n} ${label}`);
+    }
+  }
+
+  return {
+    changes,
+    summary: counts.length == 0 ? "No changes." : `${counts.join(", ")}.`,
+    introduced: is.filter((issue) => !wasKeys.has(key(issue, false))),
+    resolved: was.filter((issue) => !isKeys.has(key(issue, true))),
+  };
+}
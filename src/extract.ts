@@ -0,0 +1,151 @@
+import { DefiniteIdentifier, PedigreeEntry } from "./pedigree";
+import { Pedigree } from "./model";
+import { PedigreeNormalizationOptions } from "./normalize";
+
+/**
+ * The shortest route from `who` to anyone in `goal`, going through parents before
+ * children so that, where there is a choice, individuals are linked by ancestors.
+ */
+function link(P: Pedigree, who: DefiniteIdentifier, goal: Set<DefiniteIdentifier>): DefiniteIdentifier[] | undefined {
+  const from = new Map<DefiniteIdentifier, DefiniteIdentifier | null>([[who, null]]);
+  const queue: DefiniteIdentifier[] = [who];
+  while (queue.length > 0) {
+    const x = queue.shift();
+    if (goal.has(x)) {
+      const path: DefiniteIdentifier[] = [];
+      for (let y = x; y !== null; y = from.get(y)) {
+        path.push(y);
+      }
+      return path;
+    }
+    for (const y of [...P.parents(x), ...P.children(x)]) {
+      if (!from.has(y)) {
+        from.set(y, x);
+        queue.push(y);
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Extract the rows for a set of individuals as a standalone pedigree.
+ *
+ * Relatives needed to keep the result connected (usually ancestors)
+ * are added, and parents who are not kept become missing. Twins must have
+ * both parents, so a twin who loses one is no longer marked as a twin. If the
+ * source pedigree passes `validatePedigree` with `strict` options, so does the result.
+ * The rows passed in are not modified. The normalization options say which parents
+ * are missing when building the model from rows; a `Pedigree` already knows.
+ */
+export function extractPedigree(
+  ped: PedigreeEntry[] | Pedigree,
+  keep: Iterable<DefiniteIdentifier>,
+  normalization: Partial<PedigreeNormalizationOptions> = {}
+): PedigreeEntry[] {
+  const P = ped instanceof Pedigree ? ped : new Pedigree(ped, normalization);
+  const wanted = [...keep].filter((who) => P.has(who));
+  const kept = new Set<DefiniteIdentifier>(wanted.slice(0, 1));
+  for (const who of wanted.slice(1)) {
+    if (kept.has(who)) {
+      continue;
+    }
+    // Individuals with no route are in another group altogether,
+    // so the source pedigree wasn't connected in the first place.
+    const path = link(P, who, kept) || [who];
+    for (const x of path) {
+      kept.add(x);
+    }
+  }
+
+  const res: PedigreeEntry[] = [];
+  const seen = new Set<DefiniteIdentifier>();
+  for (const row of P.entries) {
+    if (!kept.has(row.sample) || seen.has(row.sample)) {
+      continue;
+    }
+    seen.add(row.sample);
+    const copy = { ...row };
+    if (P.known(row.father) && !kept.has(row.father)) {
+      copy.father = null;
+    }
+    if (P.known(row.mother) && !kept.has(row.mother)) {
+      copy.mother = null;
+    }
+    if (copy.twin && (copy.father !== row.father || copy.mother !== row.mother)) {
+      delete copy.twin;
+    }
+    res.push(copy);
+  }
+  return res;
+}
+
+/**
+ * The proband and their parents. Returns undefined if the proband is not in the pedigree.
+ */
+export function extractTrio(
+  ped: PedigreeEntry[] | Pedigree,
+  proband: DefiniteIdentifier,
+  normalization: Partial<PedigreeNormalizationOptions> = {}
+): PedigreeEntry[] | undefined {
+  const P = ped instanceof Pedigree ? ped : new Pedigree(ped, normalization);
+  if (!P.has(proband)) {
+    return undefined;
+  }
+  return extractPedigree(P, [proband, ...P.parents(proband)]);
+}
+
+/**
+ * The proband, their parents, and their full siblings (or, if only one parent
+ * is known, that parent's children). Returns undefined if the proband is not in the pedigree.
+ */
+export function extractNuclearFamily(
+  ped: PedigreeEntry[] | Pedigree,
+  proband: DefiniteIdentifier,
+  normalization: Partial<PedigreeNormalizationOptions> = {}
+): PedigreeEntry[] | undefined {
+  const P = ped instanceof Pedigree ? ped : new Pedigree(ped, normalization);
+  if (!P.has(proband)) {
+    return undefined;
+  }
+  const parents = P.parents(proband);
+  const siblings = P.siblings(proband, parents.length == 2 ? "full" : "all");
+  return extractPedigree(P, [proband, ...parents, ...siblings]);
+}
+
+/**
+ * The proband and their blood relatives within `meioses` meioses, counted up to a common
+ * ancestor and back down, e.g. 1 for parents and children, 2 for grandparents and siblings.
+ * Returns undefined if the proband is not in the pedigree.
+ */
+export function extractRelatives(
+  ped: PedigreeEntry[] | Pedigree,
+  proband: DefiniteIdentifier,
+  meioses: number,
+  normalization: Partial<PedigreeNormalizationOptions> = {}
+): PedigreeEntry[] | undefined {
+  const P = ped instanceof Pedigree ? ped : new Pedigree(ped, normalization);
+  if (!P.has(proband)) {
+    return undefined;
+  }
+  const bfs = (starts: [DefiniteIdentifier, number][], next: (who: DefiniteIdentifier) => DefiniteIdentifier[]) => {
+    const res = new Map<DefiniteIdentifier, number>(starts);
+    const queue = starts.map(([who]) => who);
+    while (queue.length > 0) {
+      const x = queue.shift();
+      if (res.get(x) == meioses) {
+        continue;
+      }
+      for (const y of next(x)) {
+        if (!res.has(y) || res.get(y) > res.get(x) + 1) {
+          res.set(y, res.get(x) + 1);
+          queue.push(y);
+        }
+      }
+    }
+    return res;
+  };
+  const up = bfs([[proband, 0]], (who) => P.parents(who));
+  const all = bfs([...up.entries()], (who) => P.children(who));
+  return extractPedigree(P, [proband, ...all.keys()]);
+}
@@ -0,0 +1,250 @@
+import { set } from "algorithms-js";
+import { DefiniteIdentifier, Identifier, PedigreeEntry, SexValue } from "./pedigree";
+import {
+  PedigreeNormalizationOptions,
+  defaultMissingIdentifiers,
+  defaultSexEncoding,
+  isMissingIdentifier,
+  normalizeSex,
+} from "./normalize";
+
+export interface FamilySplitOptions {
+  /**
+   * Generate the identifier for the `n`th group of a family (n >= 2).
+   * Identifiers already in use are skipped by trying the next `n`.
+   * Default: `${famid}_${n}`.
+   */
+  name: (famid: DefiniteIdentifier, n: number) => DefiniteIdentifier;
+}
+
+export const defaultFamilySplitOptions: FamilySplitOptions = {
+  name: (famid, n) => `${famid}_${n}`,
+};
+
+export interface FamilySplitResult {
+  pedigree: PedigreeEntry[];
+
+  /**
+   * For each original family, the identifiers of the families it was split into,
+   * largest first. The largest keeps the original identifier.
+   */
+  families: Map<DefiniteIdentifier, DefiniteIdentifier[]>;
+}
+
+function groupFamilies(ped: PedigreeEntry[]): Map<DefiniteIdentifier, PedigreeEntry[]> {
+  const fams = new Map<DefiniteIdentifier, PedigreeEntry[]>();
+  for (const row of ped) {
+    if (!fams.has(row.family)) {
+      fams.set(row.family, []);
+    }
+    fams.get(row.family).push(row);
+  }
+  return fams;
+}
+
+/**
+ * Split each family into the groups of individuals connected by parent/child links,
+ * as flagged by the `fullyConnected` check, with missing parents as given by the
+ * normalization options. The rows passed in are not modified.
+ */
+export function splitFamilies(
+  ped: PedigreeEntry[],
+  options: Partial<FamilySplitOptions> = {},
+  normalization: Partial<PedigreeNormalizationOptions> = {}
+): FamilySplitResult {
+  const opts: FamilySplitOptions = { ...defaultFamilySplitOptions, ...options };
+  const missing = normalization.missing || defaultMissingIdentifiers;
+  const result: FamilySplitResult = { pedigree: ped.map((row) => ({ ...row })), families: new Map() };
+  const fams = groupFamilies(result.pedigree);
+  const used = new Set<string>([...fams.keys()].map(String));
+
+  for (const [famid, rows] of fams) {
+    // Connect samples with union-find, as `validatePedigree` does,
+    // then group the rows by their representative.
+    //
+    const uf = new set.UnionFind<DefiniteIdentifier>();
+    for (const row of rows) {
+      uf.find(row.sample);
+      if (!isMissingIdentifier(row.father, missing)) {
+        uf.union(row.sample, row.father);
+      }
+      if (!isMissingIdentifier(row.mother, missing)) {
+        uf.union(row.sample, row.mother);
+      }
+    }
+    const idx = new Map<DefiniteIdentifier, PedigreeEntry[]>();
+    for (const row of rows) {
+      const key = uf.find(row.sample);
+      if (!idx.has(key)) {
+        idx.set(key, []);
+      }
+      idx.get(key).push(row);
+    }
+    const groups = [...idx.values()];
+    // Array.prototype.sort is stable, so ties stay in order of appearance.
+    groups.sort((a, b) => new Set(b.map((row) => row.sample)).size - new Set(a.map((row) => row.sample)).size);
+
+    result.families.set(famid, [famid]);
+    let n = 1;
+    for (const group of groups.slice(1)) {
+      let newid: DefiniteIdentifier;
+      do {
+        n += 1;
+        newid = opts.name(famid, n);
+      } while (used.has(String(newid)));
+      used.add(String(newid));
+      result.families.get(famid).push(newid);
+      for (const row of group) {
+        row.family = newid;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Change family identifiers, either from a table (families not
+ * in the table are unchanged) or with a function.
+ * The rows passed in are not modified.
+ */
+export function renameFamilies(
+  ped: PedigreeEntry[],
+  names: { [famid: DefiniteIdentifier]: DefiniteIdentifier } | ((famid: DefiniteIdentifier) => DefiniteIdentifier)
+): PedigreeEntry[] {
+  const rename =
+    typeof names == "function"
+      ? names
+      : (famid: DefiniteIdentifier) => (Object.prototype.hasOwnProperty.call(names, famid) ? names[famid] : famid);
+  return ped.map((row) => ({ ...row, family: rename(row.family) }));
+}
+
+export interface FamilyRenumberOptions {
+  /**
+   * Default: "FAM".
+   */
+  prefix: string;
+
+  /**
+   * The number for the first family.
+   * Default: 1.
+   */
+  start: number;
+
+  /**
+   * Pad the numbers with zeros to this many digits.
+   * Default: 2.
+   */
+  digits: number;
+}
+
+export const defaultFamilyRenumberOptions: FamilyRenumberOptions = {
+  prefix: "FAM",
+  start: 1,
+  digits: 2,
+};
+
+/**
+ * Give the families sequential identifiers, e.g. FAM01, FAM02, ...,
+ * in order of first appearance.
+ */
+export function renumberFamilies(ped: PedigreeEntry[], options: Partial<FamilyRenumberOptions> = {}): PedigreeEntry[] {
+  const opts: FamilyRenumberOptions = { ...defaultFamilyRenumberOptions, ...options };
+  const names = new Map<DefiniteIdentifier, DefiniteIdentifier>();
+  [...groupFamilies(ped).keys()].forEach((famid, i) => {
+    names.set(famid, opts.prefix + String(opts.start + i).padStart(opts.digits, "0"));
+  });
+  return renameFamilies(ped, (famid) => names.get(famid));
+}
+
+export type PedigreeMergeField = "family" | "father" | "mother" | "sex";
+
+/**
+ * A sample whose details differ between the two pedigrees being merged.
+ */
+export interface PedigreeMergeConflict {
+  sample: DefiniteIdentifier;
+  field: PedigreeMergeField;
+  first: Identifier | SexValue;
+  second: Identifier | SexValue;
+}
+
+export interface PedigreeMergeResult {
+  /**
+   * True if there were no conflicts.
+   */
+  ok: boolean;
+  pedigree: PedigreeEntry[];
+  conflicts: PedigreeMergeConflict[];
+}
+
+/**
+ * Combine two pedigrees. Samples in both are merged into one row: details missing
+ * from the first are taken from the second, and details that disagree are reported
+ * as conflicts, with the first pedigree's value kept. A parent is missing if it is among
+ * the missing identifiers of the normalization options, and sexes are compared in their
+ * encoding. The rows passed in are not modified.
+ */
+export function mergePedigrees(
+  first: PedigreeEntry[],
+  second: PedigreeEntry[],
+  normalization: Partial<PedigreeNormalizationOptions> = {}
+): PedigreeMergeResult {
+  const missing = normalization.missing || defaultMissingIdentifiers;
+  const encoding = normalization.sex || defaultSexEncoding;
+  const result: PedigreeMergeResult = { ok: true, pedigree: [], conflicts: [] };
+  const index = new Map<DefiniteIdentifier, PedigreeEntry>();
+  for (const row of first) {
+    const copy = { ...row };
+    result.pedigree.push(copy);
+    if (!index.has(row.sample)) {
+      index.set(row.sample, copy);
+    }
+  }
+
+  const conflict = (
+    sample: DefiniteIdentifier,
+    field: PedigreeMergeField,
+    a: Identifier | SexValue,
+    b: Identifier | SexValue
+  ) => {
+    result.ok = false;
+    result.conflicts.push({ sample, field, first: a, second: b });
+  };
+  for (const row of second) {
+    const mine = index.get(row.sample);
+    if (!mine) {
+      const copy = { ...row };
+      result.pedigree.push(copy);
+      index.set(row.sample, copy);
+      continue;
+    }
+    if (mine.family !== row.family) {
+      conflict(row.sample, "family", mine.family, row.family);
+    }
+    for (const field of ["father", "mother"] as const) {
+      if (isMissingIdentifier(row[field], missing)) {
+        continue;
+      }
+      if (isMissingIdentifier(mine[field], missing)) {
+        mine[field] = row[field];
+      } else if (mine[field] !== row[field]) {
+        conflict(row.sample, field, mine[field], row[field]);
+      }
+    }
+    const sex = normalizeSex(row.sex, encoding);
+    if (sex !== null && sex !== undefined) {
+      const ours = normalizeSex(mine.sex, encoding);
+      if (ours === null) {
+        mine.sex = row.sex;
+      } else if (ours !== sex) {
+        conflict(row.sample, "sex", mine.sex, row.sex);
+      }
+    }
+    for (const field of ["affected", "proband", "deceased", "birth", "death", "phenotypes", "hpo", "twin"] as const) {
+      if (mine[field] === undefined && row[field] !== undefined) {
+        Object.assign(mine, { [field]: row[field] });
+      }
+    }
+  }
+  return result;
+}
@@ -0,0 +1,417 @@
+import { DefiniteIdentifier, Identifier, PedigreeDate, PedigreeEntry } from "./pedigree";
+import {
+  PedigreeNormalizationOptions,
+  defaultMissingIdentifiers,
+  defaultSexEncoding,
+  isMissingIdentifier,
+  normalizeDate,
+  normalizeSex,
+} from "./normalize";
+
+export interface GedcomParseOptions {
+  /**
+   * GEDCOM has no notion of a family in the sense of a pedigree
+   * (its FAM records are couples), so everyone is put in this family.
+   * Use `splitFamilies` to separate unconnected groups.
+   * Default: "FAM01".
+   */
+  family: DefiniteIdentifier;
+}
+
+export const defaultGedcomParseOptions: GedcomParseOptions = {
+  family: "FAM01",
+};
+
+/**
+ * Details kept from INDI records that have no place in a `PedigreeEntry`.
+ * Dates are kept as written, e.g. "ABT 1900".
+ */
+export interface GedcomMetadata {
+  name?: string;
+  birth?: string;
+  death?: string;
+}
+
+/**
+ * Constructs that a `PedigreeEntry` cannot express, and were left out:
+ * - "adoption": a FAMC link that is not by birth (e.g. PEDI adopted or foster);
+ * - "sameSexPartnership": a couple of the same sex, whose children are given no parents;
+ * - "multipleParentFamilies": more than one birth family, of which only the first is used.
+ */
+export type GedcomWarningKind = "adoption" | "sameSexPartnership" | "multipleParentFamilies";
+
+export interface GedcomWarning {
+  kind: GedcomWarningKind;
+  line: number;
+
+  /**
+   * The cross-reference identifiers of the records involved, without the "@"s.
+   */
+  records: string[];
+  message: string;
+}
+
+export interface GedcomParseError {
+  line: number;
+  message: string;
+  text: string;
+}
+
+export interface GedcomParseResult {
+  ok: boolean;
+  entries: PedigreeEntry[];
+  metadata: { [who: DefiniteIdentifier]: GedcomMetadata };
+  warnings: GedcomWarning[];
+  errors: GedcomParseError[];
+}
+
+interface GedcomNode {
+  line: number;
+  level: number;
+  xref: string | null;
+  tag: string;
+  value: string;
+  children: GedcomNode[];
+}
+
+function child(node: GedcomNode, tag: string): GedcomNode | undefined {
+  return node.children.find((c) => c.tag == tag);
+}
+
+function pointer(value: string): string | null {
+  const m = /^@([^@]+)@$/.exec(value.trim());
+  return m ? m[1] : null;
+}
+
+const months = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+
+/**
+ * Write a date of a `PedigreeEntry` in GEDCOM form, e.g. "1 JUN 1950" for "1950-06-01".
+ * Dates that are not recognised are written as they are.
+ */
+function gedcomDate(date: PedigreeDate | undefined): string | null {
+  if (date === null || date === undefined || String(date).trim().length == 0) {
+    return null;
+  }
+  const text = String(date).trim();
+  const m = /^([0-9]{4})(?:-([0-9]{2})(?:-([0-9]{2}))?)?$/.exec(text);
+  if (!m || !normalizeDate(date)) {
+    return text;
+  }
+  const parts = [m[1]];
+  if (m[2] !== undefined) {
+    parts.unshift(months[Number(m[2]) - 1]);
+  }
+  if (m[3] !== undefined) {
+    parts.unshift(String(Number(m[3])));
+  }
+  return parts.join(" ");
+}
+
+/**
+ * Parse the lines of a GEDCOM file into a tree of records,
+ * joining CONC and CONT lines onto the value they continue.
+ */
+function parseLines(text: string, errors: GedcomParseError[]): GedcomNode[] {
+  const records: GedcomNode[] = [];
+  const stack: GedcomNode[] = [];
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n|\r/);
+  for (let i = 0; i < lines.length; ++i) {
+    const line = i + 1;
+    const raw = lines[i];
+    if (raw.trim().length == 0) {
+      continue;
+    }
+    const m = /^\s*(\d+)\s+(?:(@[^@]+@)\s+)?(\S+)(?: (.*))?$/.exec(raw);
+    if (!m) {
+      errors.push({ line, message: "Expected a level number and a tag.", text: raw });
+      continue;
+    }
+    const level = Number(m[1]);
+    if (level > stack.length) {
+      errors.push({ line, message: `Level ${level} does not follow on from level ${stack.length - 1}.`, text: raw });
+      continue;
+    }
+    const node: GedcomNode = { line, level, xref: m[2] ? pointer(m[2]) : null, tag: m[3], value: m[4] || "", children: [] };
+    stack.length = level;
+    if (level == 0) {
+      records.push(node);
+    } else if (node.tag == "CONC" || node.tag == "CONT") {
+      const parent = stack[level - 1];
+      parent.value += (node.tag == "CONT" ? "\n" : "") + node.value;
+      continue;
+    } else {
+      stack[level - 1].children.push(node);
+    }
+    stack.push(node);
+  }
+  return records;
+}
+
+/**
+ * Parse the text of a GEDCOM (5.5.x) file, taking individuals from INDI records and
+ * their parents from FAM records. Individuals are identified by their REFN if they have
+ * one (as written by `formatGedcom`), and otherwise by their cross-reference identifier.
+ *
+ * Sex is taken from SEX (M, F, or anything else as unknown), and an individual with a
+ * DEAT record is deceased. Relationships that cannot be expressed are reported in `warnings`.
+ */
+export function parseGedcom(text: string, options: Partial<GedcomParseOptions> = {}): GedcomParseResult {
+  const opts: GedcomParseOptions = { ...defaultGedcomParseOptions, ...options };
+  const result: GedcomParseResult = { ok: true, entries: [], metadata: {}, warnings: [], errors: [] };
+  const records = parseLines(text, result.errors);
+
+  const indis = new Map<string, GedcomNode>();
+  const fams = new Map<string, GedcomNode>();
+  for (const rec of records) {
+    if (rec.tag == "INDI" || rec.tag == "FAM") {
+      if (rec.xref === null) {
+        result.errors.push({ line: rec.line, message: `${rec.tag} record has no cross-reference identifier.`, text: rec.tag });
+        continue;
+      }
+      (rec.tag == "INDI" ? indis : fams).set(rec.xref, rec);
+    }
+  }
+  const ids = new Map<string, DefiniteIdentifier>();
+  for (const [xref, indi] of indis) {
+    const refn = child(indi, "REFN");
+    ids.set(xref, refn && refn.value.length > 0 ? refn.value : xref);
+  }
+  const resolve = (node: GedcomNode, records: Map<string, GedcomNode>): string | null => {
+    const xref = pointer(node.value);
+    if (xref === null || !records.has(xref)) {
+      result.errors.push({ line: node.line, message: `${node.tag} does not refer to a known record.`, text: node.value });
+      return null;
+    }
+    return xref;
+  };
+  const sexOf = (xref: string) => {
+    const sex = child(indis.get(xref), "SEX");
+    return sex ? sex.value.trim().toUpperCase() : "U";
+  };
+
+  // Work out the parents in each FAM record. Same-sex couples
+  // are written with two HUSBs or two WIFEs, or with a HUSB/WIFE
+  // whose SEX disagrees.
+  //
+  const parents = new Map<string, { father: string | null; mother: string | null }>();
+  const children = new Map<string, Set<string>>();
+  for (const [xref, fam] of fams) {
+    const husbs = fam.children.filter((c) => c.tag == "HUSB").map((c) => resolve(c, indis));
+    const wives = fam.children.filter((c) => c.tag == "WIFE").map((c) => resolve(c, indis));
+    const kids = fam.children.filter((c) => c.tag == "CHIL").map((c) => resolve(c, indis));
+    children.set(xref, new Set(kids.filter((k) => k !== null)));
+    const couple = [...husbs, ...wives].filter((p) => p !== null);
+    const sameSex =
+      husbs.length > 1 ||
+      wives.length > 1 ||
+      husbs.some((h) => h !== null && sexOf(h) == "F") ||
+      wives.some((w) => w !== null && sexOf(w) == "M");
+    if (sameSex) {
+      result.warnings.push({
+        kind: "sameSexPartnership",
+        line: fam.line,
+        records: [xref, ...couple],
+        message: `Family ${xref} is a same-sex partnership, so its children have been given no parents.`,
+      });
+      parents.set(xref, { father: null, mother: null });
+    } else {
+      parents.set(xref, { father: husbs.length > 0 ? husbs[0] : null, mother: wives.length > 0 ? wives[0] : null });
+    }
+  }
+  for (const indi of indis.values()) {
+    for (const famc of indi.children.filter((c) => c.tag == "FAMC")) {
+      const fam = resolve(famc, fams);
+      if (fam !== null) {
+        children.get(fam).add(indi.xref);
+      }
+    }
+  }
+
+  for (const [xref, indi] of indis) {
+    // Birth families are those listing the individual as a child,
+    // except where the link says otherwise.
+    //
+    const links = new Map<string, string>();
+    for (const [fam, kids] of children) {
+      if (kids.has(xref)) {
+        links.set(fam, "birth");
+      }
+    }
+    for (const famc of indi.children.filter((c) => c.tag == "FAMC")) {
+      const fam = pointer(famc.value);
+      const pedi = child(famc, "PEDI");
+      if (fam !== null && links.has(fam) && pedi) {
+        links.set(fam, pedi.value.trim().toLowerCase());
+      }
+    }
+    const births: string[] = [];
+    for (const [fam, how] of links) {
+      if (how == "birth") {
+        births.push(fam);
+      } else {
+        result.warnings.push({
+          kind: "adoption",
+          line: indi.line,
+          records: [xref, fam],
+          message: `Individual ${xref} is linked to family ${fam} by ${how}, not birth, so the link was left out.`,
+        });
+      }
+    }
+    if (births.length > 1) {
+      result.warnings.push({
+        kind: "multipleParentFamilies",
+        line: indi.line,
+        records: [xref, ...births],
+        message: `Individual ${xref} has more than one birth family, so only ${births[0]} was used.`,
+      });
+    }
+    const pair = births.length > 0 ? parents.get(births[0]) : { father: null, mother: null };
+
+    const sex = sexOf(xref);
+    const entry: PedigreeEntry = {
+      family: opts.family,
+      sample: ids.get(xref),
+      father: pair.father === null ? null : ids.get(pair.father),
+      mother: pair.mother === null ? null : ids.get(pair.mother),
+      sex: sex == "M" ? "Male" : sex == "F" ? "Female" : null,
+    };
+    const meta: GedcomMetadata = {};
+    const name = child(indi, "NAME");
+    if (name) {
+      meta.name = name.value.replace(/\//g, "").replace(/\s+/g, " ").trim();
+    }
+    const birt = child(indi, "BIRT");
+    if (birt && child(birt, "DATE")) {
+      meta.birth = child(birt, "DATE").value.trim();
+    }
+    const deat = child(indi, "DEAT");
+    if (deat) {
+      entry.deceased = true;
+      if (child(deat, "DATE")) {
+        meta.death = child(deat, "DATE").value.trim();
+      }
+    }
+    result.entries.push(entry);
+    if (Object.keys(meta).length > 0) {
+      result.metadata[entry.sample] = meta;
+    }
+  }
+  result.ok = result.errors.length == 0;
+  return result;
+}
+
+/**
+ * Write a pedigree as the text of a GEDCOM 5.5.1 file: an INDI record for each individual
+ * (including parents without a row of their own), with their identifier as REFN, and a FAM
+ * record for each set of parents. Family identifiers and affection status are not written,
+ * and nor are parents among the missing identifiers of the normalization options. SEX is
+ * read in their encoding of sex. Names and dates in the metadata take precedence over the
+ * birth and death dates of the entries.
+ */
+export function formatGedcom(
+  ped: PedigreeEntry[],
+  metadata: { [who: DefiniteIdentifier]: GedcomMetadata } = {},
+  normalization: Partial<PedigreeNormalizationOptions> = {}
+): string {
+  const missing = normalization.missing || defaultMissingIdentifiers;
+  const encoding = normalization.sex || defaultSexEncoding;
+  const parent = (id: Identifier | undefined): DefiniteIdentifier | null => (isMissingIdentifier(id, missing) ? null : id);
+  const xrefs = new Map<DefiniteIdentifier, string>();
+  const rows = new Map<DefiniteIdentifier, PedigreeEntry>();
+  const roles = new Map<DefiniteIdentifier, "M" | "F">();
+  const add = (who: DefiniteIdentifier) => {
+    if (!xrefs.has(who)) {
+      xrefs.set(who, `I${xrefs.size + 1}`);
+    }
+  };
+  for (const row of ped) {
+    add(row.sample);
+    if (!rows.has(row.sample)) {
+      rows.set(row.sample, row);
+    }
+    if (parent(row.father) !== null) {
+      add(row.father);
+      roles.set(row.father, "M");
+    }
+    if (parent(row.mother) !== null) {
+      add(row.mother);
+      roles.set(row.mother, "F");
+    }
+  }
+
+  // One FAM record for each distinct pair of parents.
+  //
+  interface Couple {
+    fam: string;
+    father: DefiniteIdentifier | null;
+    mother: DefiniteIdentifier | null;
+    kids: DefiniteIdentifier[];
+  }
+  const couples = new Map<string, Couple>();
+  const famOf = new Map<DefiniteIdentifier, string>();
+  const spouseOf = new Map<DefiniteIdentifier, string[]>();
+  for (const row of rows.values()) {
+    const father = parent(row.father);
+    const mother = parent(row.mother);
+    if (father === null && mother === null) {
+      continue;
+    }
+    const key = JSON.stringify([father, mother]);
+    if (!couples.has(key)) {
+      const fam = `F${couples.size + 1}`;
+      couples.set(key, { fam, father, mother, kids: [] });
+      for (const par of [father, mother]) {
+        if (par !== null) {
+          spouseOf.set(par, [...(spouseOf.get(par) || []), fam]);
+        }
+      }
+    }
+    const couple = couples.get(key);
+    couple.kids.push(row.sample);
+    famOf.set(row.sample, couple.fam);
+  }
+
+  const lines: string[] = ["0 HEAD", "1 GEDC", "2 VERS 5.5.1", "2 FORM LINEAGE-LINKED", "1 CHAR UTF-8"];
+  for (const [who, xref] of xrefs) {
+    const row = rows.get(who);
+    const sex = row ? normalizeSex(row.sex, encoding) : null;
+    const meta = metadata[who] || {};
+    lines.push(`0 @${xref}@ INDI`);
+    if (meta.name) {
+      lines.push(`1 NAME ${meta.name}`);
+    }
+    lines.push(`1 SEX ${sex == "Male" ? "M" : sex == "Female" ? "F" : roles.get(who) || "U"}`);
+    const birth = meta.birth || (row && gedcomDate(row.birth));
+    const death = meta.death || (row && gedcomDate(row.death));
+    if (birth) {
+      lines.push("1 BIRT", `2 DATE ${birth}`);
+    }
+    if (death) {
+      lines.push("1 DEAT", `2 DATE ${death}`);
+    } else if (row && row.deceased) {
+      lines.push("1 DEAT Y");
+    }
+    if (famOf.has(who)) {
+      lines.push(`1 FAMC @${famOf.get(who)}@`);
+    }
+    for (const fam of spouseOf.get(who) || []) {
+      lines.push(`1 FAMS @${fam}@`);
+    }
+    lines.push(`1 REFN ${who}`);
+  }
+  for (const couple of couples.values()) {
+    lines.push(`0 @${couple.fam}@ FAM`);
+    if (couple.father !== null) {
+      lines.push(`1 HUSB @${xrefs.get(couple.father)}@`);
+    }
+    if (couple.mother !== null) {
+      lines.push(`1 WIFE @${xrefs.get(couple.mother)}@`);
+    }
+    for (const kid of couple.kids) {
+      lines.push(`1 CHIL @${xrefs.get(kid)}@`);
+    }
+  }
+  lines.push("0 TRLR");
+  return lines.map((line) => line + "\n").join("");
+}
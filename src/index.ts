@@ -1 +1,18 @@
-export * from "./pedigree";
\ No newline at end of file
+export * from "./pedigree";
+export * from "./ped";
+export * from "./model";
+export * from "./kinship";
+export * from "./relationship";
+export * from "./normalize";
+export * from "./mendel";
+export * from "./repair";
+export * from "./layout";
+export * from "./svg";
+export * from "./families";
+export * from "./extract";
+export * from "./inheritance";
+export * from "./diff";
+export * from "./gedcom";
+export * from "./phenopacket";
+export * from "./pseudonymize";
+export * from "./samples";
@@ -0,0 +1,168 @@
+import { DefiniteIdentifier, PedigreeEntry } from "./pedigree";
+import { PedigreeNormalizationOptions, defaultSexEncoding, normalizeAffected, normalizeSex } from "./normalize";
+import { Pedigree } from "./model";
+
+export type InheritanceMode =
+  | "autosomalDominant"
+  | "autosomalRecessive"
+  | "xLinkedDominant"
+  | "xLinkedRecessive"
+  | "mitochondrial"
+  | "deNovo";
+
+export const inheritanceModes: InheritanceMode[] = [
+  "autosomalDominant",
+  "autosomalRecessive",
+  "xLinkedDominant",
+  "xLinkedRecessive",
+  "mitochondrial",
+  "deNovo",
+];
+
+/**
+ * An individual whose affection status, given that of their relatives, the mode cannot explain.
+ */
+export interface InheritanceContradiction {
+  family: DefiniteIdentifier;
+  sample: DefiniteIdentifier;
+
+  /**
+   * The relatives whose status is involved, e.g. the parents of an affected child.
+   */
+  related: DefiniteIdentifier[];
+  reason: string;
+}
+
+export interface InheritanceModeResult {
+  mode: InheritanceMode;
+  compatible: boolean;
+
+  /**
+   * The number of parent/child relationships in which both affection statuses are known.
+   */
+  informative: number;
+  contradictions: InheritanceContradiction[];
+}
+
+type Status = "Affected" | "Unaffected" | null;
+
+/**
+ * Check whether the affection status in each family is consistent with various modes of
+ * inheritance, reporting the individuals that contradict each one.
+ *
+ * The checks assume full penetrance and no phenocopies, so that affected individuals carry
+ * the variant and unaffected individuals are not affected carriers. Individuals of unknown
+ * status are not checked, and nor are individuals of unknown sex for the X-linked modes.
+ * Sex is read in the encoding of the normalization options and, when building the model
+ * from rows, they also say which parents are missing.
+ *
+ * Male-to-male transmission (an affected son of an affected father and unaffected mother)
+ * rules out both X-linked modes, since a son does not inherit his father's X.
+ */
+export function evaluateInheritance(
+  ped: PedigreeEntry[] | Pedigree,
+  modes: InheritanceMode[] = inheritanceModes,
+  normalization: Partial<PedigreeNormalizationOptions> = {}
+): InheritanceModeResult[] {
+  const P = ped instanceof Pedigree ? ped : new Pedigree(ped, normalization);
+  const encoding = normalization.sex || defaultSexEncoding;
+
+  const roles = new Map<DefiniteIdentifier, "Male" | "Female">();
+  for (const row of P.entries) {
+    if (P.known(row.father)) {
+      roles.set(row.father, "Male");
+    }
+    if (P.known(row.mother)) {
+      roles.set(row.mother, "Female");
+    }
+  }
+  const status = (who: DefiniteIdentifier | null): Status => {
+    const row = who === null ? undefined : P.entry(who);
+    return row ? normalizeAffected(row.affected) : null;
+  };
+  const sexOf = (who: DefiniteIdentifier | null): "Male" | "Female" | null => {
+    const row = who === null ? undefined : P.entry(who);
+    return (row && normalizeSex(row.sex, encoding)) || roles.get(who) || null;
+  };
+  const affected = (who: DefiniteIdentifier | null) => status(who) == "Affected";
+  const unaffected = (who: DefiniteIdentifier | null) => status(who) == "Unaffected";
+
+  let informative = 0;
+  for (const who of P.individuals()) {
+    if (status(who) !== null) {
+      informative += P.parents(who).filter((p) => status(p) !== null).length;
+    }
+  }
+
+  return modes.map((mode) => {
+    const result: InheritanceModeResult = { mode, compatible: true, informative, contradictions: [] };
+    const contradict = (who: DefiniteIdentifier, related: DefiniteIdentifier[], reason: string) => {
+      result.compatible = false;
+      result.contradictions.push({ family: P.family(who), sample: who, related, reason });
+    };
+
+    for (const who of P.individuals()) {
+      const dad = P.father(who);
+      const mum = P.mother(who);
+      const sex = sexOf(who);
+      switch (mode) {
+        case "autosomalDominant": {
+          if (affected(who) && unaffected(dad) && unaffected(mum)) {
+            contradict(who, [dad, mum], "Affected, but neither parent is affected.");
+          }
+          break;
+        }
+        case "autosomalRecessive": {
+          if (unaffected(who) && affected(dad) && affected(mum)) {
+            contradict(who, [dad, mum], "Unaffected, but both parents are affected.");
+          }
+          break;
+        }
+        case "xLinkedDominant": {
+          if (affected(who) && sex == "Male" && unaffected(mum)) {
+            const reason = affected(dad)
+              ? "Male-to-male transmission: a son does not inherit his father's X."
+              : "Affected male, but his mother is unaffected.";
+            contradict(who, affected(dad) ? [dad, mum] : [mum], reason);
+          } else if (affected(who) && sex == "Female" && unaffected(dad) && unaffected(mum)) {
+            contradict(who, [dad, mum], "Affected female, but neither parent is affected.");
+          } else if (unaffected(who) && sex == "Female" && affected(dad)) {
+            contradict(who, [dad], "Unaffected female, but her father is affected.");
+          }
+          break;
+        }
+        case "xLinkedRecessive": {
+          if (affected(who) && sex == "Male" && affected(dad) && unaffected(mum)) {
+            contradict(who, [dad, mum], "Male-to-male transmission: a son does not inherit his father's X.");
+          } else if (affected(who) && sex == "Female" && unaffected(dad)) {
+            contradict(who, [dad], "Affected female, but her father is unaffected.");
+          } else if (unaffected(who) && sex == "Male" && affected(mum)) {
+            contradict(who, [mum], "Unaffected male, but his mother is affected.");
+          }
+          break;
+        }
+        case "mitochondrial": {
+          if (affected(who) && unaffected(mum)) {
+            contradict(who, [mum], "Affected, but their mother is unaffected.");
+          } else if (unaffected(who) && affected(mum)) {
+            contradict(who, [mum], "Unaffected, but their mother is affected.");
+          }
+          break;
+        }
+        case "deNovo": {
+          const sources = [dad, mum].filter((p) => p !== null && affected(p));
+          if (affected(who) && sources.length > 0) {
+            contradict(who, sources, "Affected, but so is a parent, so the variant is inherited.");
+          } else if (affected(who) && dad !== null && mum !== null) {
+            const sibs = P.siblings(who, "full").filter(affected);
+            if (sibs.length > 0) {
+              contradict(who, sibs, "Affected, and so is a full sibling, which would need the same new variant twice.");
+            }
+          }
+          break;
+        }
+      }
+    }
+    return result;
+  });
+}
@@ -0,0 +1,91 @@
+import { DefiniteIdentifier, PedigreeEntry } from "./pedigree";
+import { Pedigree } from "./model";
+
+interface KinshipBlock {
+  index: Map<DefiniteIdentifier, number>;
+  size: number;
+  phi: Float64Array;
+}
+
+/**
+ * Expected kinship and inbreeding coefficients, computed from the
+ * structure of a pedigree with the recursive (tabular) method.
+ *
+ * The table is computed separately for each connected component,
+ * so memory grows with the square of the largest family rather than
+ * the whole pedigree. Individuals in different components have a
+ * kinship of 0. Individuals involved in a cycle have no coefficients.
+ */
+export class Kinship {
+  private blocks: Map<DefiniteIdentifier, KinshipBlock>;
+
+  constructor(ped: PedigreeEntry[] | Pedigree) {
+    const P = ped instanceof Pedigree ? ped : new Pedigree(ped);
+    this.blocks = new Map();
+
+    // Label connected components, then fill in each one's
+    // table in topological order.
+    //
+    const groups = P.components();
+    const component = new Map<DefiniteIdentifier, number>();
+    for (let c = 0; c < groups.length; ++c) {
+      for (const who of groups[c]) {
+        component.set(who, c);
+      }
+    }
+
+    const orders: DefiniteIdentifier[][] = groups.map(() => []);
+    for (const who of P.topologicalOrder()) {
+      orders[component.get(who)].push(who);
+    }
+
+    for (const order of orders) {
+      const size = order.length;
+      const block: KinshipBlock = { index: new Map(), size, phi: new Float64Array(size * size) };
+      const phi = block.phi;
+      for (let i = 0; i < size; ++i) {
+        const who = order[i];
+        block.index.set(who, i);
+        this.blocks.set(who, block);
+
+        const [p, q] = P.parents(who).map((par) => block.index.get(par));
+        const self = p !== undefined && q !== undefined ? phi[p * size + q] : 0;
+        phi[i * size + i] = 0.5 * (1 + self);
+        for (let j = 0; j < i; ++j) {
+          const fromP = p !== undefined ? phi[p * size + j] : 0;
+          const fromQ = q !== undefined ? phi[q * size + j] : 0;
+          const k = 0.5 * (fromP + fromQ);
+          phi[i * size + j] = k;
+          phi[j * size + i] = k;
+        }
+      }
+    }
+  }
+
+  /**
+   * The probability that alleles drawn at random from each of the
+   * two individuals are identical by descent.
+   */
+  coefficient(a: DefiniteIdentifier, b: DefiniteIdentifier): number | undefined {
+    if (!this.blocks.has(a) || !this.blocks.has(b)) {
+      return undefined;
+    }
+    const block = this.blocks.get(a);
+    if (block !== this.blocks.get(b)) {
+      return 0;
+    }
+    return block.phi[block.index.get(a) * block.size + block.index.get(b)];
+  }
+
+  /**
+   * The inbreeding coefficient of an individual, that is,
+   * the kinship coefficient of their parents.
+   */
+  inbreeding(who: DefiniteIdentifier): number | undefined {
+    const self = this.coefficient(who, who);
+    if (self === undefined) {
+      return undefined;
+    }
+    return 2 * self - 1;
+  }
+}
@@ -0,0 +1,385 @@
+import { DefiniteIdentifier, PedigreeEntry } from "./pedigree";
+import { Pedigree } from "./model";
+import { PedigreeNormalizationOptions } from "./normalize";
+
+export interface LayoutOptions {
+  /**
+   * The width and height of an individual's symbol.
+   * Default: 40.
+   */
+  nodeSize: number;
+
+  /**
+   * The space between neighbouring symbols in a generation.
+   * Default: 30.
+   */
+  horizontalGap: number;
+
+  /**
+   * The space between generations.
+   * Default: 60.
+   */
+  verticalGap: number;
+
+  /**
+   * The number of barycentre sweeps used to reduce line crossings.
+   * Default: 4.
+   */
+  sweeps: number;
+}
+
+export const defaultLayoutOptions: LayoutOptions = {
+  nodeSize: 40,
+  horizontalGap: 30,
+  verticalGap: 60,
+  sweeps: 4,
+};
+
+/**
+ * An individual, positioned by the centre of their symbol.
+ */
+export interface LayoutNode {
+  id: DefiniteIdentifier;
+  generation: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * - "mating": the line joining a couple, doubled if they are related;
+ * - "descent": the line from a couple (or single parent) down to their children;
+ * - "sibship": the horizontal line joining a set of siblings;
+ * - "child": the line from the sibship line down to a child.
+ */
+export type LayoutSegmentKind = "mating" | "descent" | "sibship" | "child";
+
+export interface LayoutSegment {
+  kind: LayoutSegmentKind;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+
+  /**
+   * The individuals the segment belongs to: the couple (or single parent),
+   * or for "child" segments, the child.
+   */
+  individuals: DefiniteIdentifier[];
+  consanguineous: boolean;
+}
+
+export interface FamilyLayout {
+  family: DefiniteIdentifier;
+  nodes: LayoutNode[];
+  segments: LayoutSegment[];
+  width: number;
+  height: number;
+
+  /**
+   * The size of each symbol, from the layout options.
+   */
+  nodeSize: number;
+
+  /**
+   * Individuals that could not be placed because they are part of a cycle.
+   */
+  unplaced: DefiniteIdentifier[];
+}
+
+/**
+ * Assign generations so that children are below their parents, and
+ * individuals who marry into the family are level with their spouse.
+ */
+function assignGenerations(P: Pedigree, order: DefiniteIdentifier[]): Map<DefiniteIdentifier, number> {
+  const gen = new Map<DefiniteIdentifier, number>();
+  const settle = () => {
+    for (const who of order) {
+      const ps = P.parents(who);
+      if (ps.length > 0) {
+        gen.set(who, Math.max(...ps.map((p) => gen.get(p))) + 1);
+      } else if (!gen.has(who)) {
+        gen.set(who, 0);
+      }
+    }
+  };
+  settle();
+  // Raising a founder can lower their children, which can in
+  // turn move the spouse of another founder, so do it twice.
+  for (let i = 0; i < 2; ++i) {
+    for (const who of order) {
+      if (P.parents(who).length > 0) {
+        continue;
+      }
+      const levels = P.spouses(who)
+        .filter((s) => gen.has(s))
+        .map((s) => gen.get(s));
+      if (levels.length > 0) {
+        gen.set(who, Math.max(gen.get(who), ...levels));
+      }
+    }
+    settle();
+  }
+  return gen;
+}
+
+/**
+ * Reorder a generation so that each individual's spouses in the same generation
+ * are next to them; with several spouses, they are split either side.
+ */
+function cluster(P: Pedigree, row: DefiniteIdentifier[]): DefiniteIdentifier[] {
+  const here = new Set<DefiniteIdentifier>(row);
+  const placed = new Set<DefiniteIdentifier>();
+  const res: DefiniteIdentifier[] = [];
+  for (const who of row) {
+    if (placed.has(who)) {
+      continue;
+    }
+    const sps = P.spouses(who).filter((s) => here.has(s) && !placed.has(s));
+    const left = sps.slice(0, Math.floor(sps.length / 2));
+    const right = sps.slice(left.length);
+    for (const x of [...left, who, ...right]) {
+      placed.add(x);
+      res.push(x);
+    }
+  }
+  return res;
+}
+
+function mean(xs: number[]): number {
+  return xs.reduce((a, b) => a + b, 0) / xs.length;
+}
+
+interface Sibship {
+  parents: DefiniteIdentifier[];
+  children: DefiniteIdentifier[];
+}
+
+/**
+ * Group the individuals who have parents by their set of parents, in order of first appearance.
+ */
+function sibships(P: Pedigree, whos: DefiniteIdentifier[]): Sibship[] {
+  // Key each set of parents by their positions in the pedigree,
+  // which are unique and don't depend on the order given.
+  const rank = new Map<DefiniteIdentifier, number>(P.individuals().map((who, i) => [who, i]));
+  const index = new Map<string, Sibship>();
+  for (const who of whos) {
+    const ps = P.parents(who);
+    if (ps.length == 0) {
+      continue;
+    }
+    const key = ps
+      .map((p) => rank.get(p))
+      .sort((a, b) => a - b)
+      .join(",");
+    if (!index.has(key)) {
+      index.set(key, { parents: ps, children: [] });
+    }
+    index.get(key).children.push(who);
+  }
+  return [...index.values()];
+}
+
+function related(P: Pedigree, a: DefiniteIdentifier, b: DefiniteIdentifier): boolean {
+  const as = P.ancestors(a);
+  const bs = P.ancestors(b);
+  if (as.has(b) || bs.has(a)) {
+    return true;
+  }
+  for (const x of as) {
+    if (bs.has(x)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function layoutFamily(
+  family: DefiniteIdentifier,
+  rows: PedigreeEntry[],
+  opts: LayoutOptions,
+  normalization: Partial<PedigreeNormalizationOptions>
+): FamilyLayout {
+  const P = new Pedigree(rows, normalization);
+  const topo = P.topologicalOrder();
+  const placeable = new Set<DefiniteIdentifier>(topo);
+  const unplaced = P.individuals().filter((who) => !placeable.has(who));
+  const gen = assignGenerations(P, topo);
+
+  // Initial order: depth first from the founders, visiting
+  // spouses and then children, so that families stay together.
+  //
+  const depth = topo.length == 0 ? 0 : Math.max(...topo.map((who) => gen.get(who))) + 1;
+  let gens: DefiniteIdentifier[][] = [];
+  for (let g = 0; g < depth; ++g) {
+    gens.push([]);
+  }
+  const visited = new Set<DefiniteIdentifier>();
+  const visit = (who: DefiniteIdentifier) => {
+    if (visited.has(who) || !placeable.has(who)) {
+      return;
+    }
+    visited.add(who);
+    gens[gen.get(who)].push(who);
+    for (const s of P.spouses(who)) {
+      visit(s);
+    }
+    for (const c of P.children(who)) {
+      visit(c);
+    }
+  };
+  for (const who of topo) {
+    visit(who);
+  }
+  gens = gens.map((row) => cluster(P, row));
+
+  // Reduce crossings by alternately ordering each generation by the
+  // mean position of their parents (going down) and their children (going up).
+  //
+  const position = (): Map<DefiniteIdentifier, number> => {
+    const pos = new Map<DefiniteIdentifier, number>();
+    for (const row of gens) {
+      row.forEach((who, i) => pos.set(who, i));
+    }
+    return pos;
+  };
+  const reorder = (g: number, neighbours: (who: DefiniteIdentifier) => DefiniteIdentifier[]) => {
+    const pos = position();
+    const key = new Map<DefiniteIdentifier, number>();
+    for (const who of gens[g]) {
+      const ns = neighbours(who);
+      if (ns.length > 0) {
+        key.set(who, mean(ns.map((n) => pos.get(n))));
+      }
+    }
+    // Individuals with no neighbours go with their spouse, or failing that, stay put.
+    for (const who of gens[g]) {
+      if (!key.has(who)) {
+        const sps = P.spouses(who).filter((s) => key.has(s));
+        key.set(who, sps.length > 0 ? key.get(sps[0]) : pos.get(who));
+      }
+    }
+    const res = [...gens[g]];
+    res.sort((a, b) => key.get(a) - key.get(b) || pos.get(a) - pos.get(b));
+    gens[g] = cluster(P, res);
+  };
+  for (let s = 0; s < opts.sweeps; ++s) {
+    for (let g = 1; g < depth; ++g) {
+      reorder(g, (who) => P.parents(who));
+    }
+    for (let g = depth - 2; g >= 0; --g) {
+      reorder(g, (who) => P.children(who).filter((c) => placeable.has(c)));
+    }
+  }
+
+  // Assign coordinates generation by generation, centring
+  // each sibship under its parents where there is room.
+  //
+  const spacing = opts.nodeSize + opts.horizontalGap;
+  const rowHeight = opts.nodeSize + opts.verticalGap;
+  const xs = new Map<DefiniteIdentifier, number>();
+  for (let g = 0; g < depth; ++g) {
+    const row = gens[g];
+    const desired = new Map<DefiniteIdentifier, number>();
+    for (const { parents, children } of sibships(P, row)) {
+      const centre = mean(parents.map((p) => xs.get(p)));
+      children.forEach((who, i) => desired.set(who, centre + (i - (children.length - 1) / 2) * spacing));
+    }
+    // Spouses who married in sit beside their partner.
+    row.forEach((who, i) => {
+      if (desired.has(who)) {
+        return;
+      }
+      for (const s of P.spouses(who)) {
+        const j = row.indexOf(s);
+        if (j >= 0 && desired.has(s)) {
+          desired.set(who, desired.get(s) + (i - j) * spacing);
+          break;
+        }
+      }
+    });
+    let prev = -Infinity;
+    for (const who of row) {
+      const want = desired.has(who) ? desired.get(who) : prev == -Infinity ? 0 : prev + spacing;
+      xs.set(who, Math.max(want, prev + spacing));
+      prev = xs.get(who);
+    }
+  }
+  const minX = topo.length == 0 ? 0 : Math.min(...topo.map((who) => xs.get(who)));
+  const half = opts.nodeSize / 2;
+
+  const nodes: LayoutNode[] = [];
+  for (const row of gens) {
+    for (const who of row) {
+      nodes.push({ id: who, generation: gen.get(who), x: xs.get(who) - minX + half, y: gen.get(who) * rowHeight + half });
+    }
+  }
+  const at = new Map<DefiniteIdentifier, LayoutNode>();
+  for (const node of nodes) {
+    at.set(node.id, node);
+  }
+
+  // Connectors: a mating line for each couple, then a descent line,
+  // a sibship line and child lines for each set of children.
+  //
+  const segments: LayoutSegment[] = [];
+  for (const { parents, children } of sibships(P, topo)) {
+    let top: { x: number; y: number };
+    if (parents.length == 2) {
+      const [a, b] = parents.map((p) => at.get(p)).sort((p, q) => p.x - q.x);
+      const consanguineous = related(P, a.id, b.id);
+      segments.push({
+        kind: "mating",
+        x1: a.x + half,
+        y1: a.y,
+        x2: b.x - half,
+        y2: b.y,
+        individuals: [a.id, b.id],
+        consanguineous,
+      });
+      top = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    } else {
+      const p = at.get(parents[0]);
+      top = { x: p.x, y: p.y + half };
+    }
+    const kids = children.map((c) => at.get(c));
+    const sibY = Math.min(...kids.map((c) => c.y)) - half - opts.verticalGap / 2;
+    segments.push({ kind: "descent", x1: top.x, y1: top.y, x2: top.x, y2: sibY, individuals: parents, consanguineous: false });
+    const left = Math.min(top.x, ...kids.map((c) => c.x));
+    const right = Math.max(top.x, ...kids.map((c) => c.x));
+    if (right > left) {
+      segments.push({ kind: "sibship", x1: left, y1: sibY, x2: right, y2: sibY, individuals: parents, consanguineous: false });
+    }
+    for (const c of kids) {
+      segments.push({ kind: "child", x1: c.x, y1: sibY, x2: c.x, y2: c.y - half, individuals: [c.id], consanguineous: false });
+    }
+  }
+
+  const width = nodes.length == 0 ? 0 : Math.max(...nodes.map((n) => n.x)) + half;
+  const height = depth * rowHeight - opts.verticalGap;
+  return { family, nodes, segments, width, height: Math.max(0, height), nodeSize: opts.nodeSize, unplaced };
+}
+
+/**
+ * Lay out each family for drawing: assign generations, order each
+ * generation to reduce line crossings with spouses side by side,
+ * and compute coordinates and connecting lines.
+ *
+ * The pedigree should have no cycles (see the `cycles` check in
+ * `validatePedigree`); individuals in a cycle are left unplaced. Parents among the
+ * missing identifiers of the normalization options are not drawn.
+ */
+export function layoutPedigree(
+  ped: PedigreeEntry[],
+  options: Partial<LayoutOptions> = {},
+  normalization: Partial<PedigreeNormalizationOptions> = {}
+): FamilyLayout[] {
+  const opts: LayoutOptions = { ...defaultLayoutOptions, ...options };
+  const fams = new Map<DefiniteIdentifier, PedigreeEntry[]>();
+  for (const row of ped) {
+    if (!fams.has(row.family)) {
+      fams.set(row.family, []);
+    }
+    fams.get(row.family).push(row);
+  }
+  return [...fams].map(([famid, rows]) => layoutFamily(famid, rows, opts, normalization));
+}
@@ -0,0 +1,232 @@
+import { DefiniteIdentifier, Identifier, PedigreeEntry } from "./pedigree";
+import {
+  PedigreeNormalizationOptions,
+  defaultMissingIdentifiers,
+  defaultSexEncoding,
+  isMissingIdentifier,
+  normalizeSex,
+} from "./normalize";
+
+/**
+ * Per-sample genotype calls in VCF style, e.g. "0/1", "1|1", "./.",
+ * or "1" for a hemizygous call.
+ */
+export type GenotypeCalls = { [who: DefiniteIdentifier]: string };
+
+export type MendelianChromosome = "autosomal" | "X";
+
+export interface MendelianVariant {
+  id: string;
+  chromosome: MendelianChromosome;
+  genotypes: GenotypeCalls;
+}
+
+/**
+ * How a child's genotype is inconsistent with their parents:
+ * - "father"/"mother": the child shares no allele with that parent;
+ * - "denovo": consistent with each parent alone, but the child carries
+ *   an allele neither parent has;
+ * - "hemizygous": a male has a heterozygous call on X.
+ */
+export type MendelianErrorKind = "father" | "mother" | "denovo" | "hemizygous";
+
+export interface MendelianError {
+  variant?: string;
+  kind: MendelianErrorKind;
+  child: DefiniteIdentifier;
+  father: DefiniteIdentifier | null;
+  mother: DefiniteIdentifier | null;
+  genotypes: GenotypeCalls;
+  implicated: DefiniteIdentifier[];
+  reason: string;
+}
+
+export interface MendelianCheckResult {
+  ok: boolean;
+
+  /**
+   * The number of trios and duos with a called child and at least one called parent.
+   */
+  checked: number;
+  errors: MendelianError[];
+
+  /**
+   * How many errors each individual is implicated in. Across many variants,
+   * an individual with a high count is a candidate sample swap.
+   */
+  implicated: { [who: DefiniteIdentifier]: number };
+}
+
+type Alleles = string[] | null;
+
+function parseGenotype(gt: string | undefined): Alleles {
+  if (gt === undefined) {
+    return null;
+  }
+  const alleles = gt.split(/[\/|]/);
+  if (alleles.some((a) => a == "." || a == "")) {
+    return null;
+  }
+  return alleles;
+}
+
+/**
+ * Can `child` be made from one allele of each parent? A null parent
+ * could have contributed any allele. A child with a single (hemizygous)
+ * allele must have received it from their mother.
+ */
+function compatible(child: string[], paternal: Alleles, maternal: Alleles): boolean {
+  const from = (alleles: Alleles, a: string) => alleles === null || alleles.includes(a);
+  if (child.length == 1) {
+    return from(maternal, child[0]);
+  }
+  const [x, y] = child;
+  return (from(paternal, x) && from(maternal, y)) || (from(paternal, y) && from(maternal, x));
+}
+
+function addError(result: MendelianCheckResult, error: MendelianError): void {
+  result.ok = false;
+  result.errors.push(error);
+  for (const who of error.implicated) {
+    result.implicated[who] = (result.implicated[who] || 0) + 1;
+  }
+}
+
+/**
+ * Check one variant's genotype calls for Mendelian consistency.
+ *
+ * On X, males are treated as hemizygous: a homozygous call is taken as a
+ * single allele, a heterozygous call is reported, and sons inherit only
+ * from their mothers. Individuals of unknown sex are not checked on X.
+ * Parents among the missing identifiers of the normalization options are not checked,
+ * and sex is read in their encoding.
+ */
+export function checkMendelian(
+  ped: PedigreeEntry[],
+  genotypes: GenotypeCalls,
+  chromosome: MendelianChromosome = "autosomal",
+  normalization: Partial<PedigreeNormalizationOptions> = {}
+): MendelianCheckResult {
+  const result: MendelianCheckResult = { ok: true, checked: 0, errors: [], implicated: {} };
+  const missing = normalization.missing || defaultMissingIdentifiers;
+  const encoding = normalization.sex || defaultSexEncoding;
+  const parent = (id: Identifier | undefined): DefiniteIdentifier | null => (isMissingIdentifier(id, missing) ? null : id);
+
+  // Individuals of unknown sex are assumed to be
+  // male if they are a father, and female if a mother.
+  //
+  const sexes = new Map<DefiniteIdentifier, "Male" | "Female" | null>();
+  for (const row of ped) {
+    if (parent(row.father) !== null && !sexes.get(row.father)) {
+      sexes.set(row.father, "Male");
+    }
+    if (parent(row.mother) !== null && !sexes.get(row.mother)) {
+      sexes.set(row.mother, "Female");
+    }
+  }
+  for (const row of ped) {
+    sexes.set(row.sample, normalizeSex(row.sex, encoding) || sexes.get(row.sample) || null);
+  }
+
+  // Work out the alleles each individual can transmit,
+  // reporting impossible hemizygous calls as we go.
+  //
+  const alleles = new Map<DefiniteIdentifier, Alleles>();
+  const hemizygous = (who: DefiniteIdentifier): boolean => chromosome == "X" && sexes.get(who) == "Male";
+  const allelesOf = (who: DefiniteIdentifier): Alleles => {
+    if (!alleles.has(who)) {
+      let a = parseGenotype(genotypes[who]);
+      if (a !== null && hemizygous(who)) {
+        if (new Set(a).size > 1) {
+          addError(result, {
+            kind: "hemizygous",
+            child: who,
+            father: null,
+            mother: null,
+            genotypes: { [who]: genotypes[who] },
+            implicated: [who],
+            reason: "Male has a heterozygous genotype on X.",
+          });
+          a = null;
+        } else {
+          a = [a[0]];
+        }
+      } else if (a !== null && chromosome == "X" && sexes.get(who) != "Female") {
+        a = null;
+      } else if (a !== null && a.length == 1) {
+        a = [a[0], a[0]];
+      }
+      alleles.set(who, a);
+    }
+    return alleles.get(who);
+  };
+
+  for (const row of ped) {
+    const kid = row.sample;
+    const dad = parent(row.father);
+    const mum = parent(row.mother);
+    const c = allelesOf(kid);
+    if (c === null) {
+      continue;
+    }
+    // On X, sons receive nothing from their fathers.
+    const sonOnX = hemizygous(kid);
+    const f = dad !== null && !sonOnX ? allelesOf(dad) : null;
+    const m = mum !== null ? allelesOf(mum) : null;
+    if (f === null && m === null) {
+      continue;
+    }
+    result.checked += 1;
+
+    const gts: GenotypeCalls = { [kid]: genotypes[kid] };
+    if (f !== null) {
+      gts[dad] = genotypes[dad];
+    }
+    if (m !== null) {
+      gts[mum] = genotypes[mum];
+    }
+    const report = (kind: MendelianErrorKind, implicated: DefiniteIdentifier[], reason: string) => {
+      addError(result, { kind, child: kid, father: dad, mother: mum, genotypes: gts, implicated, reason });
+    };
+
+    if (sonOnX) {
+      if (!compatible(c, null, m)) {
+        report("mother", [kid, mum], "Son's X allele is not present in his mother.");
+      }
+      continue;
+    }
+    if (f !== null && !compatible(c, f, null)) {
+      report("father", [kid, dad], "Child shares no allele with their father.");
+      continue;
+    }
+    if (m !== null && !compatible(c, null, m)) {
+      report("mother", [kid, mum], "Child shares no allele with their mother.");
+      continue;
+    }
+    // Given that the child shares an allele with each parent, the
+    // only way the trio can be inconsistent is with a novel allele.
+    if (f !== null && m !== null && !compatible(c, f, m)) {
+      report("denovo", [kid], "Child has an allele present in neither parent.");
+    }
+  }
+  return result;
+}
+
+/**
+ * Check a batch of variants, accumulating the errors and implication counts.
+ */
+export function checkMendelianBatch(
+  ped: PedigreeEntry[],
+  variants: MendelianVariant[],
+  normalization: Partial<PedigreeNormalizationOptions> = {}
+): MendelianCheckResult {
+  const result: MendelianCheckResult = { ok: true, checked: 0, errors: [], implicated: {} };
+  for (const variant of variants) {
+    const res = checkMendelian(ped, variant.genotypes, variant.chromosome, normalization);
+    result.checked += res.checked;
+    for (const error of res.errors) {
+      addError(result, { variant: variant.id, ...error });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,285 @@
+import { DefiniteIdentifier, Identifier, PedigreeEntry, Relation } from "./pedigree";
+import { PedigreeNormalizationOptions, defaultMissingIdentifiers, isMissingIdentifier } from "./normalize";
+
+export type SiblingKind = "full" | "half" | "all";
+
+function addRelation(rel: Relation, from: DefiniteIdentifier, to: DefiniteIdentifier): void {
+  const tos = rel.get(from);
+  if (tos) {
+    tos.add(to);
+  } else {
+    rel.set(from, new Set<DefiniteIdentifier>([to]));
+  }
+}
+
+function closure(rel: Relation, who: DefiniteIdentifier): Set<DefiniteIdentifier> {
+  const seen = new Set<DefiniteIdentifier>();
+  const stack: DefiniteIdentifier[] = [who];
+  while (stack.length > 0) {
+    const x = stack.pop();
+    for (const y of rel.get(x) || []) {
+      if (seen.has(y) || y === who) {
+        continue;
+      }
+      seen.add(y);
+      stack.push(y);
+    }
+  }
+  return seen;
+}
+
+/**
+ * A queryable view of a pedigree.
+ *
+ * Individuals who are only referred to as a mother or father are
+ * included as founders, and parents that are among the missing
+ * identifiers of the normalization options are not. The entries are not validated, so for
+ * meaningful answers the pedigree should pass `validatePedigree`
+ * first; in particular, individuals in a cycle have no generation.
+ */
+export class Pedigree {
+  readonly entries: PedigreeEntry[];
+
+  private missing: Identifier[];
+  private members: DefiniteIdentifier[];
+  private index: Map<DefiniteIdentifier, PedigreeEntry>;
+  private families: Map<DefiniteIdentifier, DefiniteIdentifier>;
+  private parent: Relation;
+  private child: Relation;
+  private mates: Relation;
+  private pairs: [DefiniteIdentifier, DefiniteIdentifier][];
+  private depth: Map<DefiniteIdentifier, number>;
+  private topo: DefiniteIdentifier[];
+
+  constructor(ped: PedigreeEntry[], normalization: Partial<PedigreeNormalizationOptions> = {}) {
+    this.entries = ped;
+    this.missing = normalization.missing || defaultMissingIdentifiers;
+    this.members = [];
+    this.index = new Map();
+    this.families = new Map();
+    this.parent = new Map();
+    this.child = new Map();
+    this.mates = new Map();
+    this.pairs = [];
+
+    const pairSeen: Relation = new Map();
+    for (const row of ped) {
+      if (!this.index.has(row.sample)) {
+        this.index.set(row.sample, row);
+      }
+      const whos: DefiniteIdentifier[] = [row.sample];
+      if (this.known(row.father)) {
+        whos.push(row.father);
+      }
+      if (this.known(row.mother)) {
+        whos.push(row.mother);
+      }
+      for (const who of whos) {
+        if (!this.families.has(who)) {
+          this.members.push(who);
+          this.families.set(who, row.family);
+        }
+      }
+      for (const par of whos.slice(1)) {
+        addRelation(this.parent, row.sample, par);
+        addRelation(this.child, par, row.sample);
+      }
+      if (this.known(row.father) && this.known(row.mother)) {
+        addRelation(this.mates, row.father, row.mother);
+        addRelation(this.mates, row.mother, row.father);
+        if (!pairSeen.has(row.father) || !pairSeen.get(row.father).has(row.mother)) {
+          addRelation(pairSeen, row.father, row.mother);
+          this.pairs.push([row.father, row.mother]);
+        }
+      }
+    }
+
+    // Assign generations in topological order, so that
+    // each individual is one more than their deepest parent.
+    //
+    // The topological order doubles as the queue of individuals whose parents are all done.
+    //
+    this.depth = new Map();
+    this.topo = [];
+    const pending = new Map<DefiniteIdentifier, number>();
+    for (const who of this.members) {
+      const n = this.parent.has(who) ? this.parent.get(who).size : 0;
+      pending.set(who, n);
+      if (n == 0) {
+        this.depth.set(who, 0);
+        this.topo.push(who);
+      }
+    }
+    for (let i = 0; i < this.topo.length; ++i) {
+      const who = this.topo[i];
+      for (const kid of this.child.get(who) || []) {
+        this.depth.set(kid, Math.max(this.depth.has(kid) ? this.depth.get(kid) : 0, this.depth.get(who) + 1));
+        pending.set(kid, pending.get(kid) - 1);
+        if (pending.get(kid) == 0) {
+          this.topo.push(kid);
+        }
+      }
+    }
+    for (const who of this.members) {
+      if (pending.get(who) > 0) {
+        this.depth.delete(who);
+      }
+    }
+  }
+
+  /**
+   * Everyone in the pedigree, including implied parents, in order of first appearance.
+   */
+  individuals(): DefiniteIdentifier[] {
+    return [...this.members];
+  }
+
+  /**
+   * Is the identifier a real individual, rather than a missing parent?
+   */
+  known(id: Identifier | undefined): id is DefiniteIdentifier {
+    return !isMissingIdentifier(id, this.missing);
+  }
+
+  has(who: DefiniteIdentifier): boolean {
+    return this.families.has(who);
+  }
+
+  /**
+   * The row defining an individual, or undefined for implied parents.
+   */
+  entry(who: DefiniteIdentifier): PedigreeEntry | undefined {
+    return this.index.get(who);
+  }
+
+  family(who: DefiniteIdentifier): DefiniteIdentifier | undefined {
+    return this.families.get(who);
+  }
+
+  father(who: DefiniteIdentifier): DefiniteIdentifier | null {
+    const row = this.index.get(who);
+    return row && this.known(row.father) ? row.father : null;
+  }
+
+  mother(who: DefiniteIdentifier): DefiniteIdentifier | null {
+    const row = this.index.get(who);
+    return row && this.known(row.mother) ? row.mother : null;
+  }
+
+  parents(who: DefiniteIdentifier): DefiniteIdentifier[] {
+    return this.parent.has(who) ? [...this.parent.get(who)] : [];
+  }
+
+  children(who: DefiniteIdentifier): DefiniteIdentifier[] {
+    return this.child.has(who) ? [...this.child.get(who)] : [];
+  }
+
+  /**
+   * Full siblings share both (known) parents; half siblings share
+   * at least one parent, but not both.
+   */
+  siblings(who: DefiniteIdentifier, kind: SiblingKind = "all"): DefiniteIdentifier[] {
+    const mine = this.parent.get(who) || new Set<DefiniteIdentifier>();
+    const res: DefiniteIdentifier[] = [];
+    const seen = new Set<DefiniteIdentifier>([who]);
+    for (const par of mine) {
+      for (const sib of this.child.get(par)) {
+        if (seen.has(sib)) {
+          continue;
+        }
+        seen.add(sib);
+        const theirs = this.parent.get(sib);
+        const full = mine.size == 2 && theirs.size == 2 && [...mine].every((p) => theirs.has(p));
+        if (kind == "all" || (kind == "full") == full) {
+          res.push(sib);
+        }
+      }
+    }
+    return res;
+  }
+
+  ancestors(who: DefiniteIdentifier): Set<DefiniteIdentifier> {
+    return closure(this.parent, who);
+  }
+
+  descendants(who: DefiniteIdentifier): Set<DefiniteIdentifier> {
+    return closure(this.child, who);
+  }
+
+  /**
+   * Individuals with no parents in the pedigree.
+   */
+  founders(): DefiniteIdentifier[] {
+    return this.members.filter((who) => !this.parent.has(who));
+  }
+
+  /**
+   * Individuals with no children in the pedigree.
+   */
+  leaves(): DefiniteIdentifier[] {
+    return this.members.filter((who) => !this.child.has(who));
+  }
+
+  /**
+   * The individuals with whom someone has had a child.
+   */
+  spouses(who: DefiniteIdentifier): DefiniteIdentifier[] {
+    return this.mates.has(who) ? [...this.mates.get(who)] : [];
+  }
+
+  /**
+   * Each distinct father/mother pair with at least one child, as `[father, mother]`.
+   */
+  matingPairs(): [DefiniteIdentifier, DefiniteIdentifier][] {
+    return this.pairs.map((pair) => [pair[0], pair[1]]);
+  }
+
+  /**
+   * The generation of an individual: 0 for founders, otherwise one more than
+   * their deepest parent. Undefined for individuals involved in a cycle.
+   */
+  generation(who: DefiniteIdentifier): number | undefined {
+    return this.depth.get(who);
+  }
+
+  /**
+   * Groups of individuals connected by parent/child links,
+   * largest first, each in order of first appearance.
+   */
+  components(): DefiniteIdentifier[][] {
+    const group = new Map<DefiniteIdentifier, number>();
+    const res: DefiniteIdentifier[][] = [];
+    for (const who of this.members) {
+      if (group.has(who)) {
+        continue;
+      }
+      const n = res.length;
+      res.push([]);
+      const stack: DefiniteIdentifier[] = [who];
+      group.set(who, n);
+      while (stack.length > 0) {
+        const x = stack.pop();
+        for (const y of [...(this.parent.get(x) || []), ...(this.child.get(x) || [])]) {
+          if (!group.has(y)) {
+            group.set(y, n);
+            stack.push(y);
+          }
+        }
+      }
+    }
+    // Fill the groups in one pass, so each is in order of first appearance.
+    for (const who of this.members) {
+      res[group.get(who)].push(who);
+    }
+    // Array.prototype.sort is stable, so ties stay in order of appearance.
+    return res.sort((a, b) => b.length - a.length);
+  }
+
+  /**
+   * Individuals ordered so that parents come before their children.
+   * Individuals involved in a cycle are omitted.
+   */
+  topologicalOrder(): DefiniteIdentifier[] {
+    return [...this.topo];
+  }
+}
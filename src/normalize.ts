@@ -0,0 +1,187 @@
+import { AffectedStatus, DefiniteIdentifier, Identifier, PedigreeDate, PedigreeEntry } from "./pedigree";
+
+export type Sex = "Male" | "Female" | null;
+
+/**
+ * A table from encodings of sex to canonical values.
+ * Keys are matched against the value converted to a string,
+ * trimmed and converted to lower case.
+ */
+export type SexEncoding = { [code: string]: Sex };
+
+export const defaultSexEncoding: SexEncoding = {
+  "-1": null,
+  "0": null,
+  "1": "Male",
+  "2": "Female",
+  male: "Male",
+  female: "Female",
+};
+
+/**
+ * The codes PLINK understands, including "other", which is treated as unknown.
+ */
+export const plinkSexEncoding: SexEncoding = {
+  ...defaultSexEncoding,
+  "-9": null,
+  m: "Male",
+  f: "Female",
+  na: null,
+  other: null,
+};
+
+/**
+ * Map the various encodings of sex to "Male", "Female" or null (unknown).
+ * Unrecognised values yield undefined.
+ */
+export function normalizeSex(sex: PedigreeEntry["sex"] | undefined, encoding: SexEncoding = defaultSexEncoding): Sex | undefined {
+  if (sex === null || sex === undefined) {
+    return null;
+  }
+  const code = String(sex).trim().toLowerCase();
+  if (!Object.prototype.hasOwnProperty.call(encoding, code)) {
+    return undefined;
+  }
+  return encoding[code];
+}
+
+/**
+ * Map the various encodings of affection status to "Affected", "Unaffected" or null (unknown).
+ */
+export function normalizeAffected(affected: AffectedStatus | undefined): "Affected" | "Unaffected" | null {
+  switch (affected) {
+    case 1:
+    case "1":
+    case "unaffected":
+    case "Unaffected": {
+      return "Unaffected";
+    }
+    case 2:
+    case "2":
+    case "affected":
+    case "Affected": {
+      return "Affected";
+    }
+    default: {
+      return null;
+    }
+  }
+}
+
+/**
+ * The days a date may denote, counted from 1 January 1970.
+ */
+export interface DateRange {
+  earliest: number;
+  latest: number;
+}
+
+const msPerDay = 24 * 60 * 60 * 1000;
+
+function dayNumber(year: number, month: number, day: number): number {
+  const d = new Date(0);
+  d.setUTCFullYear(year, month, day);
+  return Math.round(d.getTime() / msPerDay);
+}
+
+/**
+ * Map a date to the range of days it denotes: a whole year for 1950 or "1950",
+ * a month for "1950-06", or a single day for "1950-06-01".
+ * Missing dates yield null, and unrecognised ones undefined.
+ */
+export function normalizeDate(date: PedigreeDate | undefined): DateRange | null | undefined {
+  if (date === null || date === undefined) {
+    return null;
+  }
+  if (typeof date == "number") {
+    return Number.isInteger(date) ? { earliest: dayNumber(date, 0, 1), latest: dayNumber(date + 1, 0, 1) - 1 } : undefined;
+  }
+  const m = /^([0-9]{4})(?:-([0-9]{2})(?:-([0-9]{2}))?)?$/.exec(date.trim());
+  if (!m) {
+    return undefined;
+  }
+  const year = Number(m[1]);
+  if (m[2] === undefined) {
+    return normalizeDate(year);
+  }
+  const month = Number(m[2]) - 1;
+  if (month < 0 || month > 11) {
+    return undefined;
+  }
+  if (m[3] === undefined) {
+    return { earliest: dayNumber(year, month, 1), latest: dayNumber(year, month + 1, 1) - 1 };
+  }
+  const day = Number(m[3]);
+  const d = new Date(dayNumber(year, month, day) * msPerDay);
+  if (d.getUTCMonth() != month || d.getUTCDate() != day) {
+    return undefined;
+  }
+  const n = dayNumber(year, month, day);
+  return { earliest: n, latest: n };
+}
+
+/**
+ * Identifiers that denote a missing parent. This is what has always
+ * been treated as missing: null, the number 0, and the empty string.
+ */
+export const defaultMissingIdentifiers: Identifier[] = [null, 0, ""];
+
+/**
+ * PLINK conventions, where "0" and "-9" denote a missing parent.
+ */
+export const plinkMissingIdentifiers: Identifier[] = [null, 0, "", "0", -9, "-9"];
+
+export function isMissingIdentifier(id: Identifier | undefined, missing: Identifier[] = defaultMissingIdentifiers): boolean {
+  return id === undefined || id === null || missing.includes(id);
+}
+
+const missingLookalikes = new Set<string>(["", "0", "-9", ".", "-", "NA", "N/A", "NULL", "NONE"]);
+
+/**
+ * Does an identifier look like a marker for a missing value?
+ */
+export function looksMissing(id: DefiniteIdentifier): boolean {
+  return missingLookalikes.has(String(id).trim().toUpperCase());
+}
+
+export interface PedigreeNormalizationOptions {
+  /**
+   * How to interpret `sex`.
+   * Default: defaultSexEncoding.
+   */
+  sex: SexEncoding;
+
+  /**
+   * Identifiers that denote a missing parent.
+   * Default: defaultMissingIdentifiers.
+   */
+  missing: Identifier[];
+}
+
+export const defaultNormalization: PedigreeNormalizationOptions = {
+  sex: defaultSexEncoding,
+  missing: defaultMissingIdentifiers,
+};
+
+/**
+ * Return new entries in canonical form: sex is "Male", "Female" or null,
+ * affection status (if given) is "Affected", "Unaffected" or null, and
+ * missing parents are null. Values of sex that are not recognised are
+ * left as they are, for `validatePedigree` to report.
+ */
+export function normalizePedigree(ped: PedigreeEntry[], options: Partial<PedigreeNormalizationOptions> = {}): PedigreeEntry[] {
+  const opts: PedigreeNormalizationOptions = { ...defaultNormalization, ...options };
+  return ped.map((row) => {
+    const res: PedigreeEntry = { ...row };
+    res.father = isMissingIdentifier(row.father, opts.missing) ? null : row.father;
+    res.mother = isMissingIdentifier(row.mother, opts.missing) ? null : row.mother;
+    const sex = normalizeSex(row.sex, opts.sex);
+    if (sex !== undefined) {
+      res.sex = sex;
+    }
+    if (row.affected !== undefined) {
+      res.affected = normalizeAffected(row.affected);
+    }
+    return res;
+  });
+}
@@ -0,0 +1,321 @@
+import { DefiniteIdentifier, Identifier, PedigreeEntry, PedigreeValidationResult } from "./pedigree";
+import {
+  PedigreeNormalizationOptions,
+  SexEncoding,
+  defaultMissingIdentifiers,
+  defaultSexEncoding,
+  isMissingIdentifier,
+  normalizeAffected,
+  normalizeSex,
+} from "./normalize";
+
+export interface PedParseOptions {
+  /**
+   * How columns are separated.
+   * Default: "whitespace" => any run of tabs and/or spaces.
+   * "tab" => exactly one tab, so identifiers may contain spaces.
+   */
+  delimiter: "whitespace" | "tab";
+
+  /**
+   * Lines starting with this string are ignored.
+   * Default: "#".
+   */
+  comment: string;
+
+  /**
+   * Does the first non-comment line contain column names?
+   * Default: "auto" => treat it as a header if the second column is "IID".
+   */
+  header: boolean | "auto";
+
+  /**
+   * Values in the parent, sex and phenotype columns that denote a missing value.
+   * Default: ["0", "-9"].
+   */
+  missing: string[];
+
+  /**
+   * How to interpret the phenotype column.
+   * Default: "auto" => as PLINK does, "affection" if every value is 1, 2 or missing,
+   * and "quantitative" otherwise.
+   * "affection" => 1 is unaffected, 2 is affected.
+   * "quantitative" => a number, stored under `phenotypeName`.
+   */
+  phenotype: "auto" | "affection" | "quantitative";
+
+  /**
+   * The name under which a quantitative phenotype is stored.
+   * Default: "phenotype".
+   */
+  phenotypeName: string;
+}
+
+export const defaultPedParseOptions: PedParseOptions = {
+  delimiter: "whitespace",
+  comment: "#",
+  header: "auto",
+  missing: ["0", "-9"],
+  phenotype: "auto",
+  phenotypeName: "phenotype",
+};
+
+/**
+ * A single parsed row, along with the (1-based) line it came from.
+ */
+export interface PedRecord {
+  line: number;
+  entry: PedigreeEntry;
+  phenotype: string | null;
+}
+
+export interface PedParseError {
+  line: number;
+  message: string;
+  text: string;
+}
+
+export interface PedParseResult {
+  ok: boolean;
+  entries: PedigreeEntry[];
+  records: PedRecord[];
+  errors: PedParseError[];
+}
+
+function parseIdentifier(value: string, options: PedParseOptions): Identifier {
+  if (options.missing.includes(value)) {
+    return null;
+  }
+  return value;
+}
+
+function parseSex(value: string, options: PedParseOptions): PedigreeEntry["sex"] | undefined {
+  switch (value) {
+    case "1": {
+      return "Male";
+    }
+    case "2": {
+      return "Female";
+    }
+  }
+  if (options.missing.includes(value)) {
+    return null;
+  }
+  return undefined;
+}
+
+/**
+ * Parse the text of a PLINK PED or FAM file.
+ *
+ * Only the first six columns (family, sample, father, mother, sex, phenotype)
+ * are interpreted. The phenotype column may be omitted, and any genotype
+ * columns following it are ignored. Rows that cannot be parsed are reported
+ * in `errors` and left out of `entries`.
+ */
+export function parsePed(text: string, options: Partial<PedParseOptions> = {}): PedParseResult {
+  const opts: PedParseOptions = { ...defaultPedParseOptions, ...options };
+  const result: PedParseResult = { ok: true, entries: [], records: [], errors: [] };
+
+  // The phenotypes are interpreted once all the rows are read,
+  // since with "auto" that depends on all of their values.
+  //
+  const rows: (PedRecord & { text: string })[] = [];
+  const lines = text.split(/\r?\n/);
+  let first = true;
+  for (let i = 0; i < lines.length; ++i) {
+    const line = i + 1;
+    const raw = lines[i];
+    if (raw.trim().length == 0 || raw.startsWith(opts.comment)) {
+      continue;
+    }
+    const fields = opts.delimiter == "tab" ? raw.split("\t") : raw.trim().split(/\s+/);
+
+    if (first) {
+      first = false;
+      if (opts.header === true || (opts.header == "auto" && fields.length > 1 && fields[1].toUpperCase() == "IID")) {
+        continue;
+      }
+    }
+
+    if (fields.length < 5) {
+      result.errors.push({ line, message: `Expected at least 5 columns, but found ${fields.length}.`, text: raw });
+      continue;
+    }
+
+    const [family, sample, father, mother, sexValue] = fields;
+    if (family.length == 0) {
+      result.errors.push({ line, message: "Missing family identifier.", text: raw });
+      continue;
+    }
+    if (sample.length == 0 || opts.missing.includes(sample)) {
+      result.errors.push({ line, message: "Missing sample identifier.", text: raw });
+      continue;
+    }
+    const sex = parseSex(sexValue, opts);
+    if (sex === undefined) {
+      result.errors.push({ line, message: `Unrecognised sex "${sexValue}".`, text: raw });
+      continue;
+    }
+    const phenotype = fields.length > 5 && !opts.missing.includes(fields[5]) ? fields[5] : null;
+
+    const entry: PedigreeEntry = {
+      family,
+      sample,
+      father: parseIdentifier(father, opts),
+      mother: parseIdentifier(mother, opts),
+      sex,
+    };
+    rows.push({ line, entry, phenotype, text: raw });
+  }
+
+  const affection = (phenotype: string | null) => phenotype === null || phenotype == "1" || phenotype == "2";
+  const mode =
+    opts.phenotype == "auto" ? (rows.every((row) => affection(row.phenotype)) ? "affection" : "quantitative") : opts.phenotype;
+  for (const { line, entry, phenotype, text } of rows) {
+    if (phenotype !== null) {
+      if (mode == "affection") {
+        if (!affection(phenotype)) {
+          result.errors.push({ line, message: `Unrecognised affection status "${phenotype}".`, text });
+          continue;
+        }
+        entry.affected = phenotype == "2" ? "Affected" : "Unaffected";
+      } else {
+        const value = Number(phenotype);
+        if (isNaN(value)) {
+          result.errors.push({ line, message: `Unrecognised phenotype value "${phenotype}".`, text });
+          continue;
+        }
+        entry.phenotypes = { [opts.phenotypeName]: value };
+      }
+    }
+    result.entries.push(entry);
+    result.records.push({ line, entry, phenotype });
+  }
+  // Array.prototype.sort is stable, so each line's errors stay in order.
+  result.errors.sort((a, b) => a.line - b.line);
+  result.ok = result.errors.length == 0;
+  return result;
+}
+
+export interface PedFormatOptions {
+  /**
+   * Column separator.
+   * Default: "\t".
+   */
+  delimiter: string;
+
+  /**
+   * Value written for missing parents, sex and phenotype.
+   * Default: "0".
+   */
+  missing: string;
+
+  /**
+   * Value written for a missing phenotype.
+   * Default: "-9".
+   */
+  missingPhenotype: string;
+}
+
+export const defaultPedFormatOptions: PedFormatOptions = {
+  delimiter: "\t",
+  missing: "0",
+  missingPhenotype: "-9",
+};
+
+function formatSex(sex: PedigreeEntry["sex"], options: PedFormatOptions, encoding: SexEncoding): string {
+  switch (normalizeSex(sex, encoding)) {
+    case "Male": {
+      return "1";
+    }
+    case "Female": {
+      return "2";
+    }
+    default: {
+      return options.missing;
+    }
+  }
+}
+
+function formatAffected(affected: PedigreeEntry["affected"], options: PedFormatOptions): string {
+  switch (normalizeAffected(affected)) {
+    case "Unaffected": {
+      return "1";
+    }
+    case "Affected": {
+      return "2";
+    }
+    default: {
+      return options.missingPhenotype;
+    }
+  }
+}
+
+function formatIdentifier(id: Identifier | undefined, options: PedFormatOptions, missing: Identifier[]): string {
+  if (isMissingIdentifier(id, missing)) {
+    return options.missing;
+  }
+  return String(id);
+}
+
+/**
+ * Write a pedigree as the text of a PLINK FAM file, one line per entry.
+ *
+ * Phenotypes may be supplied per sample; samples without one get their
+ * affection status, or failing that, the missing phenotype value. Parents among
+ * the missing identifiers of the normalization options are written as missing, and sex
+ * is recoded from their encoding.
+ */
+export function formatPed(
+  ped: PedigreeEntry[],
+  phenotypes: { [who: DefiniteIdentifier]: string } = {},
+  options: Partial<PedFormatOptions> = {},
+  normalization: Partial<PedigreeNormalizationOptions> = {}
+): string {
+  const opts: PedFormatOptions = { ...defaultPedFormatOptions, ...options };
+  const missing = normalization.missing || defaultMissingIdentifiers;
+  const encoding = normalization.sex || defaultSexEncoding;
+  const lines: string[] = [];
+  for (const row of ped) {
+    const phenotype = row.sample in phenotypes ? phenotypes[row.sample] : formatAffected(row.affected, opts);
+    const fields = [
+      String(row.family),
+      String(row.sample),
+      formatIdentifier(row.father, opts, missing),
+      formatIdentifier(row.mother, opts, missing),
+      formatSex(row.sex, opts, encoding),
+      phenotype,
+    ];
+    lines.push(fields.join(opts.delimiter));
+  }
+  return lines.map((line) => line + "\n").join("");
+}
+
+/**
+ * Map the individuals flagged by `validatePedigree` back to the lines
+ * of the source file that define or refer to them.
+ */
+export function problemLines(records: PedRecord[], result: PedigreeValidationResult): { [line: number]: string[] } {
+  const lines: { [line: number]: string[] } = {};
+  for (const rec of records) {
+    const whos: DefiniteIdentifier[] = [rec.entry.sample];
+    if (rec.entry.father) {
+      whos.push(rec.entry.father);
+    }
+    if (rec.entry.mother) {
+      whos.push(rec.entry.mother);
+    }
+    for (const who of whos) {
+      if (!result.problematic.has(who)) {
+        continue;
+      }
+      if (!(rec.line in lines)) {
+        lines[rec.line] = [];
+      }
+      for (const why of result.whys[who] || []) {
+        lines[rec.line].push(`${who}: ${why}`);
+      }
+    }
+  }
+  return lines;
+}
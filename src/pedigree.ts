@@ -1,19 +1,113 @@
 import { set, graph } from "algorithms-js";
 import { Graph } from "algorithms-js/dist/graph/graph";
+import {
+  DateRange,
+  PedigreeNormalizationOptions,
+  defaultMissingIdentifiers,
+  isMissingIdentifier,
+  looksMissing,
+  normalizeDate,
+  normalizePedigree,
+} from "./normalize";
 
 export type DefiniteIdentifier = string | number;
 export type Identifier = DefiniteIdentifier | null;
 
+/**
+ * Sex in any encoding; `normalizePedigree` maps it to "Male", "Female" or null.
+ */
+export type SexValue = -1 | 0 | "0" | null | 1 | "1" | "Male" | 2 | "2" | "Female" | string | number;
+
+export type AffectedStatus =
+  | -9
+  | "-9"
+  | 0
+  | "0"
+  | null
+  | 1
+  | "1"
+  | "unaffected"
+  | "Unaffected"
+  | 2
+  | "2"
+  | "affected"
+  | "Affected";
+
+/**
+ * A year, e.g. 1950, or an ISO 8601 date of the form "1950", "1950-06" or "1950-06-01".
+ */
+export type PedigreeDate = number | string | null;
+
+export type Zygosity = "monozygotic" | "dizygotic" | "unknown";
+
+export interface TwinAnnotation {
+  /**
+   * Individuals with the same group are twins (or triplets, etc.).
+   */
+  group: DefiniteIdentifier;
+
+  /**
+   * Within a group, the members marked monozygotic are identical to each other,
+   * so e.g. triplets may be a monozygotic pair and a dizygotic third.
+   */
+  zygosity: Zygosity;
+}
+
 export interface PedigreeEntry {
   family: DefiniteIdentifier;
   sample: DefiniteIdentifier;
   mother?: Identifier;
   father?: Identifier;
-  sex: -1 | 0 | "0" | null | 1 | "1" | "Male" | 2 | "2" | "Female";
+  sex: SexValue;
+
+  /**
+   * Affection status, using PLINK conventions for numeric codes:
+   * 1 => unaffected, 2 => affected, 0 or -9 => unknown.
+   */
+  affected?: AffectedStatus;
+
+  /**
+   * Is this individual the proband (index case) of their family?
+   */
+  proband?: boolean;
+
+  /**
+   * Is this individual deceased?
+   */
+  deceased?: boolean;
+
+  birth?: PedigreeDate;
+
+  /**
+   * A date of death implies the individual is deceased.
+   */
+  death?: PedigreeDate;
+
+  /**
+   * Quantitative phenotypes, by name.
+   */
+  phenotypes?: { [name: string]: number };
+
+  /**
+   * Human Phenotype Ontology terms, e.g. "HP:0001250".
+   */
+  hpo?: string[];
+
+  /**
+   * Membership of a set of twins or other multiple birth.
+   */
+  twin?: TwinAnnotation;
 }
 
 export type PedigreeValidationOptionValue = "ignore" | "error" | "warning";
 
+/**
+ * The severity of each check. The defaults given are those of `strict`.
+ *
+ * The checks from `unrecognisedSex` on are optional, and a check that is not
+ * given is skipped, so options that only give the first seven checks (as
+ * written before the others existed) behave as they always have.
+ */
 export interface PedigreeValidationOptions {
   /**
    * Require there to be at least one entry in the pedigree?
@@ -54,8 +148,129 @@ export interface PedigreeValidationOptions {
    * Default: "error" => it doesn't make sense to have cycles in pedigree.
    */
   cycles: PedigreeValidationOptionValue;
+
+  /**
+   * A sex that is not in the sex encoding.
+   * Default: "error" => the sex is ambiguous.
+   */
+  unrecognisedSex?: PedigreeValidationOptionValue;
+
+  /**
+   * Families in which nobody is affected.
+   * Default: "ignore" => affection status is optional.
+   */
+  noAffected?: PedigreeValidationOptionValue;
+
+  /**
+   * A proband whose affection status is unaffected.
+   * Default: "error" => a proband is ascertained through being affected.
+   */
+  unaffectedProband?: PedigreeValidationOptionValue;
+
+  /**
+   * HPO terms that are not of the form "HP:" followed by 7 digits.
+   * Default: "error" => the term cannot be looked up.
+   */
+  malformedHpo?: PedigreeValidationOptionValue;
+
+  /**
+   * A row whose sample identifier is one of the missing identifiers.
+   * Default: "error" => the row cannot be told apart from a missing parent.
+   */
+  missingSample?: PedigreeValidationOptionValue;
+
+  /**
+   * Identifiers that look like missing values (e.g. "0", "-9", "NA")
+   * but are not among the missing identifiers, and so are treated as
+   * real individuals.
+   * Default: "warning" => they may be real, if unusual, identifiers.
+   */
+  undeclaredMissing?: PedigreeValidationOptionValue;
+
+  /**
+   * Twins who do not have the same father and mother, or whose parents are missing.
+   * Default: "error".
+   */
+  twinParents?: PedigreeValidationOptionValue;
+
+  /**
+   * Monozygotic twins who are not the same sex.
+   * Default: "error".
+   */
+  twinSex?: PedigreeValidationOptionValue;
+
+  /**
+   * Twin groups whose members are in different families.
+   * Default: "error".
+   */
+  twinFamily?: PedigreeValidationOptionValue;
+
+  /**
+   * Dates of birth or death that are not a year or an ISO 8601 date.
+   * Default: "error".
+   */
+  malformedDate?: PedigreeValidationOptionValue;
+
+  /**
+   * A death before the individual's birth, or a date of death for an individual who is not deceased.
+   * Default: "error".
+   */
+  vitalStatus?: PedigreeValidationOptionValue;
+
+  /**
+   * Parents younger than `minParentAge` at the birth of a child.
+   * Default: "error".
+   */
+  parentAge?: PedigreeValidationOptionValue;
+
+  /**
+   * Mothers older than `maxMotherAge` at the birth of a child.
+   * Default: "error".
+   */
+  maternalAge?: PedigreeValidationOptionValue;
+
+  /**
+   * Children born after their mother died, or more than `paternalWindow` after their father died.
+   * Default: "error".
+   */
+  posthumousBirth?: PedigreeValidationOptionValue;
+
+  /**
+   * Children of the same mother, other than twins, born less than `minSiblingSpacing` apart.
+   * Default: "error".
+   */
+  siblingSpacing?: PedigreeValidationOptionValue;
+
+  /**
+   * For `crossCheckSamples`: individuals in the pedigree with no data.
+   * Default: "warning" => relatives are often not sequenced.
+   */
+  unsequenced?: PedigreeValidationOptionValue;
+
+  /**
+   * For `crossCheckSamples`: samples with data that are not in the pedigree.
+   * Default: "error".
+   */
+  unknownSample?: PedigreeValidationOptionValue;
+
+  /**
+   * For `crossCheckSamples`: a child and both parents, some but not all of whom have data.
+   * Default: "warning".
+   */
+  incompleteTrio?: PedigreeValidationOptionValue;
+
+  /**
+   * The severities of rules added with `registerValidationRule`, by name.
+   * Default: each rule's own severity.
+   */
+  rules?: { [rule: string]: PedigreeValidationOptionValue };
 }
 
+/**
+ * The name of a built-in check.
+ */
+export type PedigreeValidationCheck = Exclude<keyof PedigreeValidationOptions, "rules">;
+
 export const strict: PedigreeValidationOptions = {
   empty: "ignore",
   duplicates: "error",
@@ -64,6 +279,24 @@ export const strict: PedigreeValidationOptions = {
   oneFamily: "error",
   fullyConnected: "error",
   cycles: "error",
+  unrecognisedSex: "error",
+  noAffected: "ignore",
+  unaffectedProband: "error",
+  malformedHpo: "error",
+  missingSample: "error",
+  undeclaredMissing: "warning",
+  twinParents: "error",
+  twinSex: "error",
+  twinFamily: "error",
+  malformedDate: "error",
+  vitalStatus: "error",
+  parentAge: "error",
+  maternalAge: "error",
+  posthumousBirth: "error",
+  siblingSpacing: "error",
+  unsequenced: "warning",
+  unknownSample: "error",
+  incompleteTrio: "warning",
 };
 
 export const permissive: PedigreeValidationOptions = {
@@ -74,13 +307,116 @@ export const permissive: PedigreeValidationOptions = {
   oneFamily: "ignore",
   fullyConnected: "warning",
   cycles: "error",
+  unrecognisedSex: "error",
+  noAffected: "ignore",
+  unaffectedProband: "warning",
+  malformedHpo: "warning",
+  missingSample: "error",
+  undeclaredMissing: "warning",
+  twinParents: "warning",
+  twinSex: "error",
+  twinFamily: "warning",
+  malformedDate: "warning",
+  vitalStatus: "warning",
+  parentAge: "warning",
+  maternalAge: "warning",
+  posthumousBirth: "warning",
+  siblingSpacing: "warning",
+  unsequenced: "ignore",
+  unknownSample: "warning",
+  incompleteTrio: "ignore",
+};
+
+/**
+ * Limits for the checks on dates. Ages and intervals are in years, of 365.25 days.
+ */
+export interface PedigreeAgeLimits {
+  /**
+   * The youngest a parent may be at the birth of a child.
+   * Default: 12.
+   */
+  minParentAge: number;
+
+  /**
+   * The oldest a mother may be at the birth of a child.
+   * Default: 55.
+   */
+  maxMotherAge: number;
+
+  /**
+   * How long after a father's death a child may be born.
+   * Default: 1 => allowing for a full pregnancy.
+   */
+  paternalWindow: number;
+
+  /**
+   * The shortest interval between births to the same mother, other than twins.
+   * Default: 0.5.
+   */
+  minSiblingSpacing: number;
+}
+
+export const defaultAgeLimits: PedigreeAgeLimits = {
+  minParentAge: 12,
+  maxMotherAge: 55,
+  paternalWindow: 1,
+  minSiblingSpacing: 0.5,
 };
 
+export type PedigreeValidationSeverity = "error" | "warning";
+
+export interface PedigreeValidationIssue {
+  /**
+   * A stable code for the kind of problem: the name of the check in
+   * `PedigreeValidationOptions`, a dot, and a sub-code, e.g. "inconsistentSex.mother".
+   */
+  code: string;
+
+  /**
+   * The built-in check, or "rules" for a registered rule.
+   */
+  check: PedigreeValidationCheck | "rules";
+
+  /**
+   * For a registered rule, its name, which takes the place of the check in the code.
+   */
+  rule?: string;
+  severity: PedigreeValidationSeverity;
+
+  /**
+   * The same text as the corresponding entry in `reasons`.
+   */
+  message: string;
+
+  /**
+   * The same text as the corresponding entry in `whys`, if the issue concerns an individual.
+   */
+  detail: string | null;
+  family: DefiniteIdentifier | null;
+  individuals: DefiniteIdentifier[];
+
+  /**
+   * Indexes of the offending rows in the pedigree.
+   */
+  rows: number[];
+
+  /**
+   * Other individuals involved, e.g. the children of an inconsistent mother.
+   */
+  related: DefiniteIdentifier[];
+}
+
+/**
+ * An issue as reported by a check, which fills in the check, severity and message.
+ */
+export type ProblemIssue = Omit<PedigreeValidationIssue, "check" | "severity" | "message">;
+
 export interface PedigreeValidationResult {
   ok: boolean;
   reasons: string[];
   problematic: Set<DefiniteIdentifier>;
   whys: { [who: DefiniteIdentifier]: string[] };
+  issues: PedigreeValidationIssue[];
 }
 
 function zip(fst: Iterable<DefiniteIdentifier>, snd: string): Iterable<[DefiniteIdentifier, string]> {
@@ -91,20 +427,48 @@ function zip(fst: Iterable<DefiniteIdentifier>, snd: string): Iterable<[Definite
   return res;
 }
 
-function addProblem(
+/**
+ * Report a problem found by the check `which`, if `options` does not ignore it,
+ * with the individuals involved and why, and the issues in detail.
+ */
+export function addProblem(
   options: PedigreeValidationOptions,
   result: PedigreeValidationResult,
-  which: keyof PedigreeValidationOptions,
+  which: PedigreeValidationCheck,
   reason: string,
-  whoAndWhy?: Iterable<[DefiniteIdentifier, string]>
+  whoAndWhy?: Iterable<[DefiniteIdentifier, string]>,
+  issues?: ProblemIssue[]
 ): void {
-  switch (options[which]) {
+  recordProblem(options[which], { check: which }, result, reason, whoAndWhy, issues);
+}
+
+/**
+ * Record a problem at the given severity, from a built-in check or a registered rule.
+ */
+function recordProblem(
+  value: PedigreeValidationOptionValue | undefined,
+  source: Pick<PedigreeValidationIssue, "check" | "rule">,
+  result: PedigreeValidationResult,
+  reason: string,
+  whoAndWhy?: Iterable<[DefiniteIdentifier, string]>,
+  issues?: ProblemIssue[]
+): void {
+  switch (value) {
     case "error": {
       result.ok = false;
       // fall-through!
     }
     case "warning": {
       result.reasons.push(reason);
+      const severity = value as PedigreeValidationSeverity;
+      const prefix = source.rule || source.check;
+      if (!issues) {
+        issues = [{ code: "", detail: null, family: null, individuals: [], rows: [], related: [] }];
+      }
+      for (const issue of issues) {
+        const code = issue.code ? `${prefix}.${issue.code}` : prefix;
+        result.issues.push({ ...issue, code, ...source, severity, message: reason });
+      }
       if (whoAndWhy) {
         for (const itm of whoAndWhy) {
           const who = itm[0];
@@ -124,56 +488,298 @@ function addProblem(
   }
 }
 
-type Relation = { [who: DefiniteIdentifier]: Set<DefiniteIdentifier> };
+/**
+ * Keyed by the identifiers as given, so that e.g. 1 and "1" are different individuals.
+ */
+export type Relation = Map<DefiniteIdentifier, Set<DefiniteIdentifier>>;
+
+export interface FamilyIndex {
+  /**
+   * Indexes of the family's rows in the pedigree.
+   */
+  rows: number[];
+
+  /**
+   * The samples of the family's rows, followed by any other known fathers and mothers.
+   */
+  members: DefiniteIdentifier[];
+
+  /**
+   * The known parents of each individual with at least one.
+   */
+  parent: Relation;
+
+  /**
+   * The children of each parent.
+   */
+  child: Relation;
+}
+
+/**
+ * What a custom rule is given: the normalised pedigree, the indexes built while
+ * validating it, and a way to report problems in the same way as the built-in checks.
+ */
+export interface ValidationRuleContext {
+  pedigree: PedigreeEntry[];
+  families: Map<DefiniteIdentifier, FamilyIndex>;
+
+  /**
+   * Indexes of the rows that define each individual.
+   */
+  defining: Map<DefiniteIdentifier, number[]>;
+
+  /**
+   * Indexes of the rows that name each individual as a father or mother.
+   */
+  referring: Map<DefiniteIdentifier, number[]>;
+
+  /**
+   * Is the identifier a real individual, rather than missing?
+   */
+  known: (id: Identifier | undefined) => id is DefiniteIdentifier;
+
+  /**
+   * An issue about one individual, with their family and defining rows filled in.
+   */
+  issue: (code: string, who: DefiniteIdentifier, detail: string, related?: DefiniteIdentifier[]) => ProblemIssue;
+
+  /**
+   * Report a problem, at the severity given for the rule; the issue codes are prefixed with the rule's name.
+   */
+  report: (reason: string, whoAndWhy?: Iterable<[DefiniteIdentifier, string]>, issues?: ProblemIssue[]) => void;
+}
+
+export interface ValidationRule {
+  /**
+   * The key for the rule's severity in the `rules` of `PedigreeValidationOptions`,
+   * and the `rule` of its issues.
+   */
+  name: string;
+
+  /**
+   * Used when the `rules` of the validation options do not mention the rule.
+   */
+  severity: PedigreeValidationOptionValue;
+  check: (context: ValidationRuleContext) => void;
+}
+
+const validationRuleRegistry: Map<string, ValidationRule> = new Map<string, ValidationRule>();
+
+/**
+ * Add a rule to be run by `validatePedigree` after the built-in checks, replacing any
+ * rule of the same name. Returns false, and does nothing, if the name is that of a built-in check.
+ */
+export function registerValidationRule(rule: ValidationRule): boolean {
+  if (Object.prototype.hasOwnProperty.call(strict, rule.name)) {
+    return false;
+  }
+  validationRuleRegistry.set(rule.name, rule);
+  return true;
+}
+
+/**
+ * Remove a registered rule, returning whether there was one.
+ */
+export function unregisterValidationRule(name: string): boolean {
+  return validationRuleRegistry.delete(name);
+}
+
+/**
+ * The registered rules, in the order they are run.
+ */
+export function validationRules(): ValidationRule[] {
+  return [...validationRuleRegistry.values()];
+}
+
+function append<K, V>(map: Map<K, V[]>, key: K, value: V): void {
+  const values = map.get(key);
+  if (values) {
+    values.push(value);
+  } else {
+    map.set(key, [value]);
+  }
+}
+
+function relate(rel: Relation, from: DefiniteIdentifier, to: DefiniteIdentifier): void {
+  const tos = rel.get(from);
+  if (tos) {
+    tos.add(to);
+  } else {
+    rel.set(from, new Set<DefiniteIdentifier>([to]));
+  }
+}
+
+interface PedigreeIndexes {
+  defining: Map<DefiniteIdentifier, number[]>;
+  referring: Map<DefiniteIdentifier, number[]>;
+  families: Map<DefiniteIdentifier, FamilyIndex>;
+}
+
+/**
+ * Index the rows of a normalised pedigree by individual and by family, in one pass.
+ */
+function indexPedigree(ped: PedigreeEntry[], known: (id: Identifier | undefined) => id is DefiniteIdentifier): PedigreeIndexes {
+  const res: PedigreeIndexes = { defining: new Map(), referring: new Map(), families: new Map() };
+  const fathers = new Map<DefiniteIdentifier, DefiniteIdentifier[]>();
+  const mothers = new Map<DefiniteIdentifier, DefiniteIdentifier[]>();
+  for (let i = 0; i < ped.length; ++i) {
+    const row = ped[i];
+    const kid = row.sample;
+    append(res.defining, kid, i);
+    let fam = res.families.get(row.family);
+    if (!fam) {
+      fam = { rows: [], members: [], parent: new Map(), child: new Map() };
+      res.families.set(row.family, fam);
+    }
+    fam.rows.push(i);
+    if (known(row.father)) {
+      append(fathers, row.family, row.father);
+      relate(fam.parent, kid, row.father);
+      relate(fam.child, row.father, kid);
+      append(res.referring, row.father, i);
+    }
+    if (known(row.mother)) {
+      append(mothers, row.family, row.mother);
+      relate(fam.parent, kid, row.mother);
+      relate(fam.child, row.mother, kid);
+      if (row.mother !== row.father) {
+        append(res.referring, row.mother, i);
+      }
+    }
+  }
+  for (const [famid, fam] of res.families) {
+    const members = new Set<DefiniteIdentifier>(fam.rows.map((i) => ped[i].sample));
+    for (const who of [...(fathers.get(famid) || []), ...(mothers.get(famid) || [])]) {
+      members.add(who);
+    }
+    fam.members = [...members];
+  }
+  return res;
+}
 
-export function validatePedigree(ped: PedigreeEntry[], options: PedigreeValidationOptions = strict): PedigreeValidationResult {
-  let result = { ok: true, reasons: [], problematic: new Set<DefiniteIdentifier>(), whys: {} };
+/**
+ * Check a pedigree for problems, according to the severities in `options`.
+ * The pedigree is normalised first (see `normalizePedigree`), and is not modified.
+ *
+ * A mother or father is missing if it is null, undefined, or one of the
+ * `missing` identifiers. The same test is used throughout, so e.g. a
+ * father of "0" is a real individual unless "0" is listed.
+ *
+ * Dates given only as a year or month are only reported when every day
+ * they could denote would be a problem.
+ */
+export function validatePedigree(
+  ped: PedigreeEntry[],
+  options: PedigreeValidationOptions = strict,
+  normalization: Partial<PedigreeNormalizationOptions> = {},
+  ages: Partial<PedigreeAgeLimits> = {}
+): PedigreeValidationResult {
+  const limits: PedigreeAgeLimits = { ...defaultAgeLimits, ...ages };
+  const missing = normalization.missing || defaultMissingIdentifiers;
+  let result = { ok: true, reasons: [], problematic: new Set<DefiniteIdentifier>(), whys: {}, issues: [] };
 
   // If it's empty, report if necessary, and return.
   //
   if (ped.length == 0) {
-    addProblem(options, result, "empty", "An empty pedigree is not permitted.");
+    addProblem(options, result, "empty", "An empty pedigree is not permitted.", undefined, [
+      { code: "pedigree", detail: null, family: null, individuals: [], rows: [], related: [] },
+    ]);
     return result;
   }
 
-  // For now, only 1 family is permitted,
-  // and every sample must have a family.
+  ped = normalizePedigree(ped, normalization);
+  const known = (id: Identifier | undefined): id is DefiniteIdentifier => !isMissingIdentifier(id, missing);
+
+  // Index the rows that define and refer to each individual, and the rows,
+  // members, parents and children of each family, once for all the checks.
+  // Maps keep identifiers as they are, so 1 and "1" are not confused.
   //
-  const fams: { [famid: string]: PedigreeEntry[] } = {};
-  const famids: DefiniteIdentifier[] = [];
-  for (let row of ped) {
-    const famid = row.family;
-    if (!(famid in fams)) {
-      fams[famid] = [];
-      famids.push(famid);
+  const { defining, referring, families } = indexPedigree(ped, known);
+  const famids: DefiniteIdentifier[] = [...families.keys()];
+  const issue = (code: string, who: DefiniteIdentifier, detail: string, related: DefiniteIdentifier[] = []): ProblemIssue => {
+    const rows = defining.get(who) || [];
+    const refs = referring.get(who) || [];
+    const first = rows.length > 0 ? rows[0] : refs.length > 0 ? refs[0] : -1;
+    const family = first >= 0 ? ped[first].family : null;
+    return { code, detail, family, individuals: [who], rows, related };
+  };
+  const referrers = (who: DefiniteIdentifier, role: "father" | "mother"): DefiniteIdentifier[] => {
+    return (referring.get(who) || []).filter((i) => ped[i][role] === who).map((i) => ped[i].sample);
+  };
+  const allRows = (who: DefiniteIdentifier): number[] =>
+    [...(defining.get(who) || []), ...(referring.get(who) || [])].sort((a, b) => a - b);
+
+  // Check for identifiers that are, or look like, missing values.
+  //
+  const missingSamples: number[] = [];
+  const lookalikes: Set<DefiniteIdentifier> = new Set<DefiniteIdentifier>();
+  for (let i = 0; i < ped.length; ++i) {
+    const row = ped[i];
+    if (!known(row.sample)) {
+      missingSamples.push(i);
+    }
+    for (const who of [row.sample, row.father, row.mother]) {
+      if (known(who) && looksMissing(who)) {
+        lookalikes.add(who);
+      }
     }
-    fams[famid].push(row);
   }
+  if (missingSamples.length > 0) {
+    addProblem(
+      options,
+      result,
+      "missingSample",
+      "There is at least one row with a missing sample identifier.",
+      undefined,
+      missingSamples.map((i) => ({
+        code: "sample",
+        detail: null,
+        family: ped[i].family,
+        individuals: [],
+        rows: [i],
+        related: [],
+      }))
+    );
+  }
+  if (lookalikes.size > 0) {
+    addProblem(
+      options,
+      result,
+      "undeclaredMissing",
+      "There is at least one identifier that looks like a missing value, but is treated as an individual.",
+      zip(lookalikes, "Identifier looks like a missing value."),
+      [...lookalikes].map((who) => ({
+        ...issue("identifier", who, "Identifier looks like a missing value."),
+        rows: allRows(who),
+      }))
+    );
+  }
+
+  // For now, only 1 family is permitted,
+  // and every sample must have a family.
+  //
   if (famids.length > 1) {
-    addProblem(options, result, "multipleFamilies", "The pedigree contains multiple families.");
+    addProblem(options, result, "multipleFamilies", "The pedigree contains multiple families.", undefined, [
+      { code: "families", detail: null, family: null, individuals: [], rows: [], related: [] },
+    ]);
   }
 
-  const famIdx: { [who: string]: Set<DefiniteIdentifier> } = {};
+  const famIdx: Relation = new Map();
   const familyProblems: [DefiniteIdentifier, string][] = [];
-  for (const famid of famids) {
-    for (const row of fams[famid]) {
-      const whos: DefiniteIdentifier[] = [row.sample];
-      if (row.father) {
-        whos.push(row.father);
+  for (const [famid, fam] of families) {
+    for (const i of fam.rows) {
+      const row = ped[i];
+      relate(famIdx, row.sample, famid);
+      if (known(row.father)) {
+        relate(famIdx, row.father, famid);
       }
-      if (row.mother) {
-        whos.push(row.mother);
-      }
-      for (const who of whos) {
-        if (!(who in famIdx)) {
-          famIdx[who] = new Set<DefiniteIdentifier>();
-        }
-        famIdx[who].add(famid);
+      if (known(row.mother)) {
+        relate(famIdx, row.mother, famid);
       }
     }
   }
-  for (const who in famIdx) {
-    if (famIdx[who].size > 1) {
+  for (const [who, whose] of famIdx) {
+    if (whose.size > 1) {
       familyProblems.push([who, "Individual belongs to more than one family."]);
     }
   }
@@ -183,39 +789,33 @@ export function validatePedigree(ped: PedigreeEntry[], options: PedigreeValidati
       result,
       "oneFamily",
       "The pedigree contains individuals who belong to more than one family.",
-      familyProblems
+      familyProblems,
+      familyProblems.map(([who, why]) => ({
+        ...issue("shared", who, why),
+        family: null,
+        rows: allRows(who),
+      }))
     );
   }
 
-  // Normalise the sex for each row.
+  // Check the sex of each row was recognised.
   //
+  const unrecognisedSex: Set<DefiniteIdentifier> = new Set<DefiniteIdentifier>();
   for (const row of ped) {
-    switch (row.sex) {
-      case 0:
-      case -1:
-      case "0":
-      case null:
-      case undefined: {
-        // fine!
-        row.sex = null;
-        break;
-      }
-      case 1:
-      case "1":
-      case "Male": {
-        // fine!
-        row.sex = "Male";
-        break;
-      }
-      case 2:
-      case "2":
-      case "Female": {
-        // fine!
-        row.sex = "Female";
-        break;
-      }
+    if (row.sex !== null && row.sex !== "Male" && row.sex !== "Female") {
+      unrecognisedSex.add(row.sample);
     }
   }
+  if (unrecognisedSex.size > 0) {
+    addProblem(
+      options,
+      result,
+      "unrecognisedSex",
+      "There is at least one sample whose sex is not recognised.",
+      zip(unrecognisedSex, "Person's sex is not recognised."),
+      [...unrecognisedSex].map((who) => issue("sex", who, "Person's sex is not recognised."))
+    );
+  }
 
   // Check:
   //  - every individual occurs no more than once
@@ -232,10 +832,10 @@ export function validatePedigree(ped: PedigreeEntry[], options: PedigreeValidati
       continue;
     }
     kids.add(row.sample);
-    if (row.father) {
+    if (known(row.father)) {
       dads.add(row.father);
     }
-    if (row.mother) {
+    if (known(row.mother)) {
       mums.add(row.mother);
     }
   }
@@ -245,7 +845,8 @@ export function validatePedigree(ped: PedigreeEntry[], options: PedigreeValidati
       result,
       "duplicates",
       "Pedigree contains duplicate rows for at least one individual.",
-      zip(duplicates, "Person is defined in more than one line of the pedigree.")
+      zip(duplicates, "Person is defined in more than one line of the pedigree."),
+      [...duplicates].map((who) => issue("sample", who, "Person is defined in more than one line of the pedigree."))
     );
   }
   let both = set.intersection(dads, mums);
@@ -255,7 +856,14 @@ export function validatePedigree(ped: PedigreeEntry[], options: PedigreeValidati
       result,
       "duplicates",
       "There is at least one sample used as both father and mother.",
-      zip(both, "Person is used as both a mother and a father.")
+      zip(both, "Person is used as both a mother and a father."),
+      [...both].map((who) => {
+        const kids = [...new Set([...referrers(who, "father"), ...referrers(who, "mother")])];
+        return {
+          ...issue("bothParents", who, "Person is used as both a mother and a father.", kids),
+          rows: [...referring.get(who)],
+        };
+      })
     );
   }
 
@@ -278,7 +886,10 @@ export function validatePedigree(ped: PedigreeEntry[], options: PedigreeValidati
       result,
       "inconsistentSex",
       "There is at least one sample that occurs as a mother but is not female.",
-      zip(inconsistentSexMums, "Person is not female, but occurs as a mother.")
+      zip(inconsistentSexMums, "Person is not female, but occurs as a mother."),
+      [...inconsistentSexMums].map((who) =>
+        issue("mother", who, "Person is not female, but occurs as a mother.", referrers(who, "mother"))
+      )
     );
   }
   if (inconsistentSexDads.size > 0) {
@@ -287,52 +898,140 @@ export function validatePedigree(ped: PedigreeEntry[], options: PedigreeValidati
       result,
       "inconsistentSex",
       "There is at least one sample that occurs as a father but is not male.",
-      zip(inconsistentSexDads, "Person is not male, but occurs as a father.")
+      zip(inconsistentSexDads, "Person is not male, but occurs as a father."),
+      [...inconsistentSexDads].map((who) =>
+        issue("father", who, "Person is not male, but occurs as a father.", referrers(who, "father"))
+      )
+    );
+  }
+
+  // Check affection status and phenotypes.
+  //
+  const noAffected: ProblemIssue[] = [];
+  for (const [famid, fam] of families) {
+    if (!fam.rows.some((i) => ped[i].affected == "Affected")) {
+      noAffected.push({ code: "family", detail: null, family: famid, individuals: [], rows: [...fam.rows], related: [] });
+    }
+  }
+  if (noAffected.length > 0) {
+    addProblem(
+      options,
+      result,
+      "noAffected",
+      "There is at least one family with no affected individuals.",
+      undefined,
+      noAffected
+    );
+  }
+  let unaffectedProbands: Set<DefiniteIdentifier> = new Set<DefiniteIdentifier>();
+  let malformedHpo: Set<DefiniteIdentifier> = new Set<DefiniteIdentifier>();
+  for (const row of ped) {
+    if (row.proband && row.affected == "Unaffected") {
+      unaffectedProbands.add(row.sample);
+    }
+    for (const term of row.hpo || []) {
+      if (!/^HP:[0-9]{7}$/.test(term)) {
+        malformedHpo.add(row.sample);
+      }
+    }
+  }
+  if (unaffectedProbands.size > 0) {
+    addProblem(
+      options,
+      result,
+      "unaffectedProband",
+      "There is at least one proband who is unaffected.",
+      zip(unaffectedProbands, "Person is a proband, but is unaffected."),
+      [...unaffectedProbands].map((who) => issue("proband", who, "Person is a proband, but is unaffected."))
+    );
+  }
+  if (malformedHpo.size > 0) {
+    addProblem(
+      options,
+      result,
+      "malformedHpo",
+      "There is at least one malformed HPO term.",
+      zip(malformedHpo, "Person has an HPO term that is not of the form HP:0000000."),
+      [...malformedHpo].map((who) => issue("term", who, "Person has an HPO term that is not of the form HP:0000000."))
+    );
+  }
+
+  // Check twins: each group must have the same parents and be in one
+  // family, and the monozygotic members must be the same sex.
+  //
+  const twinGroups = new Map<DefiniteIdentifier, PedigreeEntry[]>();
+  for (const row of ped) {
+    if (row.twin) {
+      append(twinGroups, row.twin.group, row);
+    }
+  }
+  const twinParents: ProblemIssue[] = [];
+  const twinSex: ProblemIssue[] = [];
+  const twinFamily: ProblemIssue[] = [];
+  const twinIssues = (code: string, rows: PedigreeEntry[], why: string): ProblemIssue[] => {
+    const members = rows.map((row) => row.sample);
+    return members.map((who) =>
+      issue(
+        code,
+        who,
+        why,
+        members.filter((x) => x != who)
+      )
+    );
+  };
+  for (const rows of twinGroups.values()) {
+    const [first] = rows;
+    if (
+      rows.some((row) => row.father !== first.father || row.mother !== first.mother || !known(row.father) || !known(row.mother))
+    ) {
+      twinParents.push(...twinIssues("parents", rows, "Twin does not have the same known father and mother as their co-twins."));
+    }
+    const identical = rows.filter((row) => row.twin.zygosity == "monozygotic");
+    if (identical.some((row) => row.sex !== identical[0].sex)) {
+      twinSex.push(...twinIssues("sex", identical, "Monozygotic twin is not the same sex as their co-twins."));
+    }
+    if (rows.some((row) => row.family !== first.family)) {
+      twinFamily.push(...twinIssues("family", rows, "Twin is not in the same family as their co-twins."));
+    }
+  }
+  if (twinParents.length > 0) {
+    addProblem(
+      options,
+      result,
+      "twinParents",
+      "There is at least one set of twins who do not share both parents.",
+      twinParents.map((i) => [i.individuals[0], i.detail]),
+      twinParents
+    );
+  }
+  if (twinSex.length > 0) {
+    addProblem(
+      options,
+      result,
+      "twinSex",
+      "There is at least one set of monozygotic twins who are not the same sex.",
+      twinSex.map((i) => [i.individuals[0], i.detail]),
+      twinSex
+    );
+  }
+  if (twinFamily.length > 0) {
+    addProblem(
+      options,
+      result,
+      "twinFamily",
+      "There is at least one set of twins who are not in the same family.",
+      twinFamily.map((i) => [i.individuals[0], i.detail]),
+      twinFamily
     );
   }
 
   const unconnected: [DefiniteIdentifier, string][] = [];
+  const unconnectedIssues: ProblemIssue[] = [];
   const cyclic: Set<DefiniteIdentifier> = new Set<DefiniteIdentifier>();
 
   // Now process families one by one.
   //
-  for (const famid in fams) {
-    // Create indexes.
-    //
-    let kids = new Set<DefiniteIdentifier>();
-    let dads = new Set<DefiniteIdentifier>();
-    let mums = new Set<DefiniteIdentifier>();
-    let parent: Relation = {};
-    let child: Relation = {};
-    for (let row of fams[famid]) {
-      let kid = row.sample;
-      let dad = row.father;
-      let mum = row.mother;
-      kids.add(row.sample);
-      if (dad) {
-        dads.add(dad);
-        if (!(kid in parent)) {
-          parent[kid] = new Set();
-        }
-        parent[kid].add(dad);
-        if (!(dad in child)) {
-          child[dad] = new Set();
-        }
-        child[dad].add(kid);
-      }
-      if (mum) {
-        mums.add(mum);
-        if (!(kid in parent)) {
-          parent[kid] = new Set();
-        }
-        parent[kid].add(mum);
-        if (!(mum in child)) {
-          child[mum] = new Set();
-        }
-        child[mum].add(kid);
-      }
-    }
-
+  for (const [famid, fam] of families) {
     // Check everything is connected:
     // NB When we support multiple families, this will need to
     // do a separate pass for each family.
@@ -341,45 +1040,33 @@ export function validatePedigree(ped: PedigreeEntry[], options: PedigreeValidati
     // Step 1: use union-find to connect samples.
     //
     let uf = new set.UnionFind<DefiniteIdentifier>();
-    for (const row of fams[famid]) {
-      const kid = row.sample;
-      const dad = row.father;
-      const mum = row.mother;
-      if (dad) {
-        uf.union(kid, dad);
-      }
-      if (mum) {
-        uf.union(kid, mum);
+    for (const [kid, pars] of fam.parent) {
+      for (const par of pars) {
+        uf.union(kid, par);
       }
     }
 
-    const everyone = [...set.union(kids, dads, mums)];
+    const everyone = fam.members;
 
     // Step 2: make an index that groups the connected
     // samples into sets.
     //
-    const idx = {};
-    const keys = new Set<DefiniteIdentifier>();
+    const idx: Relation = new Map();
     for (const who of everyone) {
-      const key = uf.find(who);
-      if (!(key in idx)) {
-        idx[key] = new Set();
-      }
-      idx[key].add(who);
-      keys.add(key);
+      relate(idx, uf.find(who), who);
     }
 
     // Step 3: if there is more than one group,
     // flag the samples in all but the biggest
     // group.
     //
-    if (keys.size > 1) {
+    if (idx.size > 1) {
       // Step 3a: figure out the biggest group.
       //
       let maxSet: Set<DefiniteIdentifier> = new Set<DefiniteIdentifier>();
-      for (let key of keys) {
-        if (idx[key].size > maxSet.size) {
-          maxSet = idx[key];
+      for (const group of idx.values()) {
+        if (group.size > maxSet.size) {
+          maxSet = group;
         }
       }
 
@@ -390,6 +1077,10 @@ export function validatePedigree(ped: PedigreeEntry[], options: PedigreeValidati
           continue;
         }
         unconnected.push([who, "Individual is not properly connected to pedigree."]);
+        unconnectedIssues.push({
+          ...issue("unconnected", who, "Individual is not properly connected to pedigree."),
+          family: famid,
+        });
       }
     }
 
@@ -397,9 +1088,9 @@ export function validatePedigree(ped: PedigreeEntry[], options: PedigreeValidati
     // there are no cycles in the graph.
     //
     const children: [DefiniteIdentifier, DefiniteIdentifier][] = [];
-    for (const who in child) {
-      for (const kid of child[who]) {
-        if (who == kid) {
+    for (const [who, kids] of fam.child) {
+      for (const kid of kids) {
+        if (who === kid) {
           cyclic.add(who);
           continue;
         }
@@ -419,7 +1110,14 @@ export function validatePedigree(ped: PedigreeEntry[], options: PedigreeValidati
     }
   }
   if (unconnected.length > 0) {
-    addProblem(options, result, "fullyConnected", "At least one individual is not properly connected to family.", unconnected);
+    addProblem(
+      options,
+      result,
+      "fullyConnected",
+      "At least one individual is not properly connected to family.",
+      unconnected,
+      unconnectedIssues
+    );
   }
   if (cyclic.size > 0) {
     addProblem(
@@ -427,9 +1125,190 @@ export function validatePedigree(ped: PedigreeEntry[], options: PedigreeValidati
       result,
       "cycles",
       "There was at least one instance of someone being their own ancestor.",
-      zip(cyclic, "Sample is an ancestor of itself.")
+      zip(cyclic, "Sample is an ancestor of itself."),
+      [...cyclic].map((who) => issue("ancestor", who, "Sample is an ancestor of itself."))
     );
   }
 
+  // Check dates: the order of birth and death, the ages of parents,
+  // births after a parent's death, and the spacing of siblings.
+  //
+  const year = 365.25;
+  const births = new Map<DefiniteIdentifier, DateRange>();
+  const deaths = new Map<DefiniteIdentifier, DateRange>();
+  const malformedDates: ProblemIssue[] = [];
+  const vitalStatus: ProblemIssue[] = [];
+  for (const [who, rows] of defining) {
+    const row = ped[rows[0]];
+    for (const [field, dates] of [
+      ["birth", births],
+      ["death", deaths],
+    ] as const) {
+      const date = normalizeDate(row[field]);
+      if (date === undefined) {
+        malformedDates.push(issue(field, who, `Person's date of ${field} is not a year or a date of the form YYYY-MM-DD.`));
+      } else if (date !== null) {
+        dates.set(who, date);
+      }
+    }
+    const birth = births.get(who);
+    const death = deaths.get(who);
+    if (birth && death && death.latest < birth.earliest) {
+      vitalStatus.push(issue("order", who, "Person died before they were born."));
+    }
+    if (death && row.deceased === false) {
+      vitalStatus.push(issue("alive", who, "Person has a date of death, but is not deceased."));
+    }
+  }
+  if (malformedDates.length > 0) {
+    addProblem(
+      options,
+      result,
+      "malformedDate",
+      "There is at least one date that is not a year or a date of the form YYYY-MM-DD.",
+      malformedDates.map((i) => [i.individuals[0], i.detail]),
+      malformedDates
+    );
+  }
+  if (vitalStatus.length > 0) {
+    addProblem(
+      options,
+      result,
+      "vitalStatus",
+      "There is at least one individual whose date of death is inconsistent with their birth or vital status.",
+      vitalStatus.map((i) => [i.individuals[0], i.detail]),
+      vitalStatus
+    );
+  }
+
+  const tooYoung = new Map<DefiniteIdentifier, DefiniteIdentifier[]>();
+  const youngRoles = new Map<DefiniteIdentifier, "father" | "mother">();
+  const tooOld = new Map<DefiniteIdentifier, DefiniteIdentifier[]>();
+  const posthumous: ProblemIssue[] = [];
+  const sibships = new Map<DefiniteIdentifier, DefiniteIdentifier[]>();
+  for (const [who, rows] of defining) {
+    const row = ped[rows[0]];
+    const birth = births.get(who);
+    if (!birth) {
+      continue;
+    }
+    for (const role of ["father", "mother"] as const) {
+      const par = row[role];
+      if (!known(par)) {
+        continue;
+      }
+      const parentBirth = births.get(par);
+      if (parentBirth && birth.latest - parentBirth.earliest < limits.minParentAge * year) {
+        append(tooYoung, par, who);
+        youngRoles.set(par, role);
+      }
+      if (role == "mother" && parentBirth && birth.earliest - parentBirth.latest > limits.maxMotherAge * year) {
+        append(tooOld, par, who);
+      }
+      const death = deaths.get(par);
+      const window = role == "father" ? limits.paternalWindow * year : 0;
+      if (death && birth.earliest - death.latest > window) {
+        const why =
+          role == "father"
+            ? `Person was born more than ${limits.paternalWindow} year(s) after their father died.`
+            : "Person was born after their mother died.";
+        posthumous.push(issue(role, who, why, [par]));
+      }
+    }
+    if (known(row.mother)) {
+      append(sibships, row.mother, who);
+    }
+  }
+  const parentAge: ProblemIssue[] = [...tooYoung].map(([who, kids]) =>
+    issue(youngRoles.get(who), who, `Person was younger than ${limits.minParentAge} at the birth of a child.`, kids)
+  );
+  const maternalAge: ProblemIssue[] = [...tooOld].map(([who, kids]) =>
+    issue("mother", who, `Person was older than ${limits.maxMotherAge} at the birth of a child.`, kids)
+  );
+  const siblingSpacing: ProblemIssue[] = [];
+  for (const kids of sibships.values()) {
+    for (const who of kids) {
+      const mine = births.get(who);
+      const twin = ped[defining.get(who)[0]].twin;
+      const close = kids.filter((sib) => {
+        const theirs = births.get(sib);
+        const sibTwin = ped[defining.get(sib)[0]].twin;
+        if (sib === who || (twin && sibTwin && twin.group === sibTwin.group)) {
+          return false;
+        }
+        // Births more than a day apart are different deliveries.
+        const minGap = Math.max(theirs.earliest - mine.latest, mine.earliest - theirs.latest);
+        const maxGap = Math.max(theirs.latest - mine.earliest, mine.latest - theirs.earliest);
+        return minGap > 1 && maxGap < limits.minSiblingSpacing * year;
+      });
+      if (close.length > 0) {
+        siblingSpacing.push(
+          issue(
+            "births",
+            who,
+            `Person was born less than ${limits.minSiblingSpacing} year(s) from a sibling who is not a twin.`,
+            close
+          )
+        );
+      }
+    }
+  }
+  if (parentAge.length > 0) {
+    addProblem(
+      options,
+      result,
+      "parentAge",
+      `There is at least one parent younger than ${limits.minParentAge} at the birth of a child.`,
+      parentAge.map((i) => [i.individuals[0], i.detail]),
+      parentAge
+    );
+  }
+  if (maternalAge.length > 0) {
+    addProblem(
+      options,
+      result,
+      "maternalAge",
+      `There is at least one mother older than ${limits.maxMotherAge} at the birth of a child.`,
+      maternalAge.map((i) => [i.individuals[0], i.detail]),
+      maternalAge
+    );
+  }
+  if (posthumous.length > 0) {
+    addProblem(
+      options,
+      result,
+      "posthumousBirth",
+      "There is at least one individual born after the death of a parent.",
+      posthumous.map((i) => [i.individuals[0], i.detail]),
+      posthumous
+    );
+  }
+  if (siblingSpacing.length > 0) {
+    addProblem(
+      options,
+      result,
+      "siblingSpacing",
+      `There is at least one pair of siblings, not twins, born less than ${limits.minSiblingSpacing} year(s) apart.`,
+      siblingSpacing.map((i) => [i.individuals[0], i.detail]),
+      siblingSpacing
+    );
+  }
+
+  // Finally, run the registered rules.
+  //
+  for (const rule of validationRuleRegistry.values()) {
+    const severity = (options.rules && options.rules[rule.name]) || rule.severity;
+    const source = { check: "rules" as const, rule: rule.name };
+    rule.check({
+      pedigree: ped,
+      families,
+      defining,
+      referring,
+      known,
+      issue,
+      report: (reason, whoAndWhy, issues) => recordProblem(severity, source, result, reason, whoAndWhy, issues),
+    });
+  }
+
   return result;
 }
@@ -0,0 +1,384 @@
+import { DefiniteIdentifier, Identifier, PedigreeEntry, PedigreeValidationIssue, PedigreeValidationSeverity } from "./pedigree";
+import {
+  PedigreeNormalizationOptions,
+  defaultMissingIdentifiers,
+  defaultSexEncoding,
+  isMissingIdentifier,
+  normalizeAffected,
+  normalizeSex,
+} from "./normalize";
+
+/*
+ * The subset of the GA4GH Phenopacket (v2) JSON schema used here.
+ */
+
+export type PhenopacketSex = "UNKNOWN_SEX" | "FEMALE" | "MALE" | "OTHER_SEX";
+
+export type PhenopacketAffectedStatus = "MISSING" | "UNAFFECTED" | "AFFECTED";
+
+export interface PhenopacketPerson {
+  familyId: string;
+  individualId: string;
+  paternalId?: string;
+  maternalId?: string;
+  sex?: PhenopacketSex;
+  affectedStatus?: PhenopacketAffectedStatus;
+}
+
+export interface PhenopacketPedigree {
+  persons: PhenopacketPerson[];
+}
+
+export interface PhenotypicFeature {
+  type: { id: string; label?: string };
+  excluded?: boolean;
+}
+
+export interface Phenopacket {
+  id: string;
+  subject?: { id: string; sex?: PhenopacketSex };
+  phenotypicFeatures?: PhenotypicFeature[];
+}
+
+export interface PhenopacketMetaData {
+  created: string;
+  createdBy: string;
+  phenopacketSchemaVersion: string;
+  resources: unknown[];
+}
+
+export interface PhenopacketFamily {
+  id: string;
+  proband?: Phenopacket;
+  relatives?: Phenopacket[];
+  pedigree: PhenopacketPedigree;
+  metaData?: PhenopacketMetaData;
+}
+
+/**
+ * What a conversion problem concerns:
+ * - "shape": the JSON is not a Family message;
+ * - "sex": a sex that cannot be represented at the other end;
+ * - "affected": an affected status that is not recognised;
+ * - "proband": a missing, unknown or extra proband;
+ * - "families": more than one family in a pedigree being written as one Family.
+ */
+export type PhenopacketCheck = "shape" | "sex" | "affected" | "proband" | "families";
+
+/**
+ * Like a validation issue, but for a conversion problem. `rows` are
+ * indexes into `pedigree.persons` when reading, and into the pedigree when writing.
+ */
+export interface PhenopacketIssue extends Omit<PedigreeValidationIssue, "check"> {
+  check: PhenopacketCheck;
+}
+
+export interface PhenopacketResult {
+  ok: boolean;
+  reasons: string[];
+  problematic: Set<DefiniteIdentifier>;
+  whys: { [who: DefiniteIdentifier]: string[] };
+  issues: PhenopacketIssue[];
+}
+
+export interface PhenopacketReadResult extends PhenopacketResult {
+  entries: PedigreeEntry[];
+}
+
+export interface PhenopacketWriteResult extends PhenopacketResult {
+  family: PhenopacketFamily;
+}
+
+export interface PhenopacketWriteOptions {
+  /**
+   * The Family's id.
+   * Default: undefined => the family identifier of the first row.
+   */
+  id?: string;
+
+  /**
+   * Default: "pedigree-tools-js".
+   */
+  createdBy: string;
+
+  /**
+   * A timestamp for the metadata.
+   * Default: undefined => now.
+   */
+  created?: string;
+}
+
+export const defaultPhenopacketWriteOptions: PhenopacketWriteOptions = {
+  createdBy: "pedigree-tools-js",
+};
+
+function report(
+  result: PhenopacketResult,
+  check: PhenopacketCheck,
+  sub: string,
+  severity: PedigreeValidationSeverity,
+  message: string,
+  where: { who?: DefiniteIdentifier; detail?: string; family?: DefiniteIdentifier; row?: number }
+): void {
+  if (severity == "error") {
+    result.ok = false;
+  }
+  if (!result.reasons.includes(message)) {
+    result.reasons.push(message);
+  }
+  const detail = where.detail === undefined ? null : where.detail;
+  if (where.who !== undefined && detail !== null) {
+    result.problematic.add(where.who);
+    if (!(where.who in result.whys)) {
+      result.whys[where.who] = [];
+    }
+    result.whys[where.who].push(detail);
+  }
+  result.issues.push({
+    code: `${check}.${sub}`,
+    check,
+    severity,
+    message,
+    detail,
+    family: where.family === undefined ? null : where.family,
+    individuals: where.who === undefined ? [] : [where.who],
+    rows: where.row === undefined ? [] : [where.row],
+    related: [],
+  });
+}
+
+function isObject(x: unknown): x is { [key: string]: unknown } {
+  return typeof x == "object" && x !== null && !Array.isArray(x);
+}
+
+function isText(x: unknown): x is string {
+  return typeof x == "string" && x.length > 0;
+}
+
+function terms(packet: unknown): string[] {
+  if (!isObject(packet) || !Array.isArray(packet.phenotypicFeatures)) {
+    return [];
+  }
+  const res: string[] = [];
+  for (const feature of packet.phenotypicFeatures) {
+    if (isObject(feature) && isObject(feature.type) && isText(feature.type.id) && feature.excluded !== true) {
+      res.push(feature.type.id);
+    }
+  }
+  return res;
+}
+
+/**
+ * Read the pedigree from a Phenopacket Family message, given as JSON text or as the
+ * parsed object. The proband is marked from `proband.subject`, and HPO terms are
+ * taken from the observed phenotypic features of the proband and relatives.
+ *
+ * Persons that are not well formed are reported and left out of `entries`.
+ */
+export function readPhenopacketFamily(json: unknown): PhenopacketReadResult {
+  const result: PhenopacketReadResult = { ok: true, reasons: [], problematic: new Set(), whys: {}, issues: [], entries: [] };
+  if (typeof json == "string") {
+    try {
+      json = JSON.parse(json);
+    } catch (e) {
+      report(result, "shape", "json", "error", "The text is not valid JSON.", {});
+      return result;
+    }
+  }
+  if (!isObject(json) || !isObject(json.pedigree) || !Array.isArray(json.pedigree.persons)) {
+    report(result, "shape", "pedigree", "error", "The Family has no pedigree.persons list.", {});
+    return result;
+  }
+
+  const hpo: { [who: string]: string[] } = {};
+  const packets = [json.proband, ...(Array.isArray(json.relatives) ? json.relatives : [])];
+  for (const packet of packets) {
+    if (isObject(packet) && isObject(packet.subject) && isText(packet.subject.id)) {
+      hpo[packet.subject.id] = [...(hpo[packet.subject.id] || []), ...terms(packet)];
+    }
+  }
+  const proband = isObject(json.proband) && isObject(json.proband.subject) ? json.proband.subject.id : undefined;
+
+  const parent = (id: unknown): string | null => (isText(id) && id != "0" ? id : null);
+  const persons: unknown[] = json.pedigree.persons;
+  persons.forEach((person, row) => {
+    if (!isObject(person) || !isText(person.familyId) || !isText(person.individualId)) {
+      report(result, "shape", "person", "error", "At least one person has no familyId or individualId.", { row });
+      return;
+    }
+    const who = person.individualId;
+    const family = person.familyId;
+    const entry: PedigreeEntry = {
+      family,
+      sample: who,
+      father: parent(person.paternalId),
+      mother: parent(person.maternalId),
+      sex: null,
+    };
+    switch (person.sex) {
+      case undefined:
+      case "UNKNOWN_SEX": {
+        break;
+      }
+      case "MALE": {
+        entry.sex = "Male";
+        break;
+      }
+      case "FEMALE": {
+        entry.sex = "Female";
+        break;
+      }
+      case "OTHER_SEX": {
+        const detail = "Person's sex is OTHER_SEX, which is read as unknown.";
+        report(result, "sex", "other", "warning", "At least one person's sex is OTHER_SEX.", { who, detail, family, row });
+        break;
+      }
+      default: {
+        const detail = `Person's sex "${person.sex}" is not recognised.`;
+        report(result, "sex", "unrecognised", "error", "At least one person's sex is not recognised.", {
+          who,
+          detail,
+          family,
+          row,
+        });
+        return;
+      }
+    }
+    switch (person.affectedStatus) {
+      case undefined:
+      case "MISSING": {
+        break;
+      }
+      case "AFFECTED": {
+        entry.affected = "Affected";
+        break;
+      }
+      case "UNAFFECTED": {
+        entry.affected = "Unaffected";
+        break;
+      }
+      default: {
+        const detail = `Person's affected status "${person.affectedStatus}" is not recognised.`;
+        const message = "At least one person's affected status is not recognised.";
+        report(result, "affected", "unrecognised", "error", message, { who, detail, family, row });
+        return;
+      }
+    }
+    if (who === proband) {
+      entry.proband = true;
+    }
+    if (who in hpo && hpo[who].length > 0) {
+      entry.hpo = hpo[who];
+    }
+    result.entries.push(entry);
+  });
+
+  if (proband === undefined) {
+    report(result, "proband", "missing", "warning", "The Family has no proband.", {});
+  } else if (!result.entries.some((row) => row.sample === proband)) {
+    const detail = "Proband is not in the pedigree.";
+    report(result, "proband", "unknown", "error", "The proband is not in the pedigree.", { who: String(proband), detail });
+  }
+  return result;
+}
+
+/**
+ * Write a pedigree as a Phenopacket Family message. The proband (the first row with
+ * `proband` set) gets a phenopacket, as does each other individual with HPO terms.
+ * Parents among the missing identifiers of the normalization options are written as "0",
+ * and sex is mapped from their encoding.
+ */
+export function writePhenopacketFamily(
+  ped: PedigreeEntry[],
+  options: Partial<PhenopacketWriteOptions> = {},
+  normalization: Partial<PedigreeNormalizationOptions> = {}
+): PhenopacketWriteResult {
+  const opts: PhenopacketWriteOptions = { ...defaultPhenopacketWriteOptions, ...options };
+  const missing = normalization.missing || defaultMissingIdentifiers;
+  const encoding = normalization.sex || defaultSexEncoding;
+  const parent = (id: Identifier | undefined): string => (isMissingIdentifier(id, missing) ? "0" : String(id));
+  const family: PhenopacketFamily = {
+    id: opts.id !== undefined ? opts.id : ped.length > 0 ? String(ped[0].family) : "",
+    pedigree: { persons: [] },
+  };
+  const result: PhenopacketWriteResult = { ok: true, reasons: [], problematic: new Set(), whys: {}, issues: [], family };
+
+  const famids = new Set<DefiniteIdentifier>(ped.map((row) => row.family));
+  if (famids.size > 1) {
+    report(result, "families", "multiple", "warning", "The pedigree contains more than one family.", {});
+  }
+
+  const sexes: { [who: DefiniteIdentifier]: PhenopacketSex } = {};
+  ped.forEach((row, i) => {
+    const who = row.sample;
+    let sex: PhenopacketSex;
+    switch (normalizeSex(row.sex, encoding)) {
+      case "Male": {
+        sex = "MALE";
+        break;
+      }
+      case "Female": {
+        sex = "FEMALE";
+        break;
+      }
+      case null: {
+        sex = "UNKNOWN_SEX";
+        break;
+      }
+      default: {
+        sex = "OTHER_SEX";
+        const detail = `Person's sex "${row.sex}" is not recognised, and is written as OTHER_SEX.`;
+        report(result, "sex", "other", "warning", "At least one person's sex is not recognised.", {
+          who,
+          detail,
+          family: row.family,
+          row: i,
+        });
+      }
+    }
+    sexes[who] = sex;
+    const affected = normalizeAffected(row.affected);
+    family.pedigree.persons.push({
+      familyId: String(row.family),
+      individualId: String(who),
+      paternalId: parent(row.father),
+      maternalId: parent(row.mother),
+      sex,
+      affectedStatus: affected == "Affected" ? "AFFECTED" : affected == "Unaffected" ? "UNAFFECTED" : "MISSING",
+    });
+  });
+
+  const packet = (row: PedigreeEntry): Phenopacket => {
+    const res: Phenopacket = { id: String(row.sample), subject: { id: String(row.sample), sex: sexes[row.sample] } };
+    if (row.hpo && row.hpo.length > 0) {
+      res.phenotypicFeatures = row.hpo.map((id) => ({ type: { id } }));
+    }
+    return res;
+  };
+  const probands = ped.filter((row) => row.proband);
+  if (probands.length == 0) {
+    report(result, "proband", "missing", "warning", "The pedigree has no proband.", {});
+  } else {
+    family.proband = packet(probands[0]);
+    for (const row of probands.slice(1)) {
+      const detail = `Person is a proband, but only ${probands[0].sample} can be the Family's proband.`;
+      report(result, "proband", "extra", "warning", "The pedigree has more than one proband.", {
+        who: row.sample,
+        detail,
+        family: row.family,
+        row: ped.indexOf(row),
+      });
+    }
+  }
+  const relatives = ped.filter((row) => row !== probands[0] && row.hpo && row.hpo.length > 0);
+  if (relatives.length > 0) {
+    family.relatives = relatives.map(packet);
+  }
+  family.metaData = {
+    created: opts.created !== undefined ? opts.created : new Date().toISOString(),
+    createdBy: opts.createdBy,
+    phenopacketSchemaVersion: "2.0",
+    resources: [],
+  };
+  return result;
+}
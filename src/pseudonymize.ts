@@ -0,0 +1,194 @@
+import { DefiniteIdentifier, Identifier, PedigreeEntry } from "./pedigree";
+import { defaultMissingIdentifiers, isMissingIdentifier } from "./normalize";
+
+export type PseudonymKind = "family" | "sample";
+
+export interface PseudonymizeOptions {
+  /**
+   * Generate the pseudonym for an identifier. It must give different pseudonyms to
+   * different identifiers of the same kind; for pseudonyms that are the same every
+   * time, derive them from a secret, e.g. with an HMAC of the identifier.
+   * Default: undefined => the prefix and a number, in order of appearance in the (shuffled) output.
+   */
+  pseudonym?: (kind: PseudonymKind, id: DefiniteIdentifier) => string;
+
+  /**
+   * Default: "FAM".
+   */
+  familyPrefix: string;
+
+  /**
+   * Default: "S".
+   */
+  samplePrefix: string;
+
+  /**
+   * The optional fields to keep; the others are removed. Kept fields are
+   * copied as they are, so should not contain identifying information.
+   * Default: ["affected"].
+   */
+  keep: (keyof PedigreeEntry)[];
+
+  /**
+   * Default: true.
+   */
+  shuffle: boolean;
+
+  /**
+   * Random numbers in [0, 1) for shuffling.
+   * Default: Math.random.
+   */
+  random: () => number;
+
+  /**
+   * Parents that are missing, which become null.
+   * Default: defaultMissingIdentifiers.
+   */
+  missing: Identifier[];
+}
+
+export const defaultPseudonymizeOptions: PseudonymizeOptions = {
+  familyPrefix: "FAM",
+  samplePrefix: "S",
+  keep: ["affected"],
+  shuffle: true,
+  random: Math.random,
+  missing: defaultMissingIdentifiers,
+};
+
+export interface PseudonymEntry {
+  kind: PseudonymKind;
+  original: DefiniteIdentifier;
+  pseudonym: string;
+}
+
+/**
+ * Identifiers of the same kind that were given the same pseudonym.
+ */
+export interface PseudonymCollision {
+  kind: PseudonymKind;
+  pseudonym: string;
+  originals: DefiniteIdentifier[];
+}
+
+export interface PseudonymizeResult {
+  /**
+   * True if each identifier has a pseudonym of its own. Otherwise, the
+   * individuals or families that share a pseudonym are merged in `pedigree`.
+   */
+  ok: boolean;
+  pedigree: PedigreeEntry[];
+
+  /**
+   * Every family and sample (including parents without rows of their own),
+   * to be kept private for re-identification.
+   */
+  table: PseudonymEntry[];
+  collisions: PseudonymCollision[];
+}
+
+const required = new Set<string>(["family", "sample", "father", "mother", "sex"]);
+
+/**
+ * Replace family and sample identifiers with pseudonyms, consistently across the
+ * `family`, `sample`, `father` and `mother` of every row, remove optional fields,
+ * and shuffle the rows. Pseudonyms from a `pseudonym` function that are given to more
+ * than one identifier are reported as collisions. The rows passed in are not modified.
+ */
+export function pseudonymizePedigree(ped: PedigreeEntry[], options: Partial<PseudonymizeOptions> = {}): PseudonymizeResult {
+  const opts: PseudonymizeOptions = { ...defaultPseudonymizeOptions, ...options };
+  const rows = [...ped];
+  if (opts.shuffle) {
+    for (let i = rows.length - 1; i > 0; --i) {
+      const j = Math.floor(opts.random() * (i + 1));
+      [rows[i], rows[j]] = [rows[j], rows[i]];
+    }
+  }
+
+  // Number the identifiers in order of appearance, unless there is a function for them.
+  //
+  const known = (id: Identifier | undefined): id is DefiniteIdentifier => !isMissingIdentifier(id, opts.missing);
+  const order: { [kind in PseudonymKind]: DefiniteIdentifier[] } = { family: [], sample: [] };
+  const seen: { [kind in PseudonymKind]: Set<DefiniteIdentifier> } = { family: new Set(), sample: new Set() };
+  const see = (kind: PseudonymKind, id: DefiniteIdentifier) => {
+    if (!seen[kind].has(id)) {
+      seen[kind].add(id);
+      order[kind].push(id);
+    }
+  };
+  for (const row of rows) {
+    see("family", row.family);
+    for (const who of [row.sample, row.father, row.mother]) {
+      if (known(who)) {
+        see("sample", who);
+      }
+    }
+  }
+  const names: { [kind in PseudonymKind]: Map<DefiniteIdentifier, string> } = { family: new Map(), sample: new Map() };
+  const table: PseudonymEntry[] = [];
+  const collisions: PseudonymCollision[] = [];
+  for (const kind of ["family", "sample"] as const) {
+    const prefix = kind == "family" ? opts.familyPrefix : opts.samplePrefix;
+    const digits = String(order[kind].length).length;
+    const originals = new Map<string, DefiniteIdentifier[]>();
+    order[kind].forEach((original, i) => {
+      const pseudonym = opts.pseudonym ? opts.pseudonym(kind, original) : prefix + String(i + 1).padStart(digits, "0");
+      names[kind].set(original, pseudonym);
+      table.push({ kind, original, pseudonym });
+      originals.set(pseudonym, [...(originals.get(pseudonym) || []), original]);
+    });
+    for (const [pseudonym, ids] of originals) {
+      if (ids.length > 1) {
+        collisions.push({ kind, pseudonym, originals: ids });
+      }
+    }
+  }
+
+  const pedigree = rows.map((row) => {
+    const res: PedigreeEntry = {
+      family: names.family.get(row.family),
+      sample: names.sample.get(row.sample),
+      father: known(row.father) ? names.sample.get(row.father) : null,
+      mother: known(row.mother) ? names.sample.get(row.mother) : null,
+      sex: row.sex,
+    };
+    for (const field of opts.keep) {
+      if (!required.has(field) && row[field] !== undefined) {
+        Object.assign(res, { [field]: row[field] });
+      }
+    }
+    return res;
+  });
+  return { ok: collisions.length == 0, pedigree, table, collisions };
+}
+
+/**
+ * Restore the original identifiers of a pseudonymised pedigree, or of results derived
+ * from it, using the table from `pseudonymizePedigree`. Identifiers not in the table
+ * are unchanged. The rows passed in are not modified.
+ */
+export function reidentifyPedigree(ped: PedigreeEntry[], table: PseudonymEntry[]): PedigreeEntry[] {
+  const originals: { [kind in PseudonymKind]: Map<DefiniteIdentifier, DefiniteIdentifier> } = {
+    family: new Map(),
+    sample: new Map(),
+  };
+  for (const entry of table) {
+    originals[entry.kind].set(entry.pseudonym, entry.original);
+  }
+  const sample = (id: Identifier | undefined): Identifier | undefined =>
+    id === null || id === undefined || !originals.sample.has(id) ? id : originals.sample.get(id);
+  return ped.map((row) => {
+    const res: PedigreeEntry = {
+      ...row,
+      family: originals.family.has(row.family) ? originals.family.get(row.family) : row.family,
+      sample: sample(row.sample),
+    };
+    if (row.father !== undefined) {
+      res.father = sample(row.father);
+    }
+    if (row.mother !== undefined) {
+      res.mother = sample(row.mother);
+    }
+    return res;
+  });
+}
@@ -0,0 +1,280 @@
+import { DefiniteIdentifier, PedigreeEntry } from "./pedigree";
+import { normalizeSex } from "./normalize";
+import { Pedigree } from "./model";
+
+/**
+ * What the second individual is to the first.
+ */
+export type RelationshipKind =
+  | "self"
+  | "ancestor"
+  | "descendant"
+  | "sibling"
+  | "aunt-uncle"
+  | "niece-nephew"
+  | "cousin"
+  | "unrelated";
+
+/**
+ * One route between the two individuals through a common ancestor.
+ * `fromA` runs from the first individual up to the ancestor, and
+ * `fromB` from the second individual up to the ancestor, inclusive.
+ */
+export interface RelationshipPath {
+  ancestor: DefiniteIdentifier;
+  fromA: DefiniteIdentifier[];
+  fromB: DefiniteIdentifier[];
+}
+
+export interface Relationship {
+  a: DefiniteIdentifier;
+  b: DefiniteIdentifier;
+  kind: RelationshipKind;
+
+  /**
+   * Meioses from `a` up to the nearest common ancestor(s).
+   */
+  up: number;
+
+  /**
+   * Meioses from `b` up to the nearest common ancestor(s).
+   */
+  down: number;
+
+  /**
+   * Related through only one of a couple, e.g. half siblings.
+   */
+  half: boolean;
+
+  /**
+   * Related through two unrelated couples, e.g. double first cousins.
+   */
+  double: boolean;
+
+  /**
+   * For cousins: 1 for first cousins, 2 for second cousins, etc.
+   */
+  cousinDegree?: number;
+
+  /**
+   * For cousins: how many generations apart they are.
+   */
+  removed?: number;
+
+  /**
+   * Plain English, e.g. "S9 is the first cousin once removed of S2".
+   */
+  description: string;
+
+  paths: RelationshipPath[];
+}
+
+const ordinals = ["zeroth", "first", "second", "third", "fourth", "fifth", "sixth", "seventh", "eighth", "ninth", "tenth"];
+
+function ordinal(n: number): string {
+  return n < ordinals.length ? ordinals[n] : `${n}th`;
+}
+
+function times(n: number): string {
+  switch (n) {
+    case 1: {
+      return "once";
+    }
+    case 2: {
+      return "twice";
+    }
+    default: {
+      return `${n} times`;
+    }
+  }
+}
+
+function greats(n: number): string {
+  return "great-".repeat(Math.max(0, n));
+}
+
+function gendered(P: Pedigree, who: DefiniteIdentifier, male: string, female: string, neither: string): string {
+  const row = P.entry(who);
+  switch (row ? normalizeSex(row.sex) : null) {
+    case "Male": {
+      return male;
+    }
+    case "Female": {
+      return female;
+    }
+    default: {
+      return neither;
+    }
+  }
+}
+
+/**
+ * The minimum number of meioses from `who` up to each of their ancestors (and themselves).
+ */
+function depths(P: Pedigree, who: DefiniteIdentifier): Map<DefiniteIdentifier, number> {
+  const res = new Map<DefiniteIdentifier, number>([[who, 0]]);
+  const queue: DefiniteIdentifier[] = [who];
+  while (queue.length > 0) {
+    const x = queue.shift();
+    for (const p of P.parents(x)) {
+      if (!res.has(p)) {
+        res.set(p, res.get(x) + 1);
+        queue.push(p);
+      }
+    }
+  }
+  return res;
+}
+
+/**
+ * All the routes from `who` up to `anc` that take exactly `meioses` steps.
+ */
+function routes(P: Pedigree, who: DefiniteIdentifier, anc: DefiniteIdentifier, meioses: number): DefiniteIdentifier[][] {
+  const res: DefiniteIdentifier[][] = [];
+  const walk = (x: DefiniteIdentifier, path: DefiniteIdentifier[]): void => {
+    if (x === anc) {
+      if (path.length == meioses + 1) {
+        res.push(path);
+      }
+      return;
+    }
+    if (path.length > meioses) {
+      return;
+    }
+    for (const p of P.parents(x)) {
+      if (p === anc || P.ancestors(p).has(anc)) {
+        walk(p, [...path, p]);
+      }
+    }
+  };
+  walk(who, [who]);
+  return res;
+}
+
+function describe(P: Pedigree, rel: Relationship): string {
+  const { a, b, up, down } = rel;
+  const half = rel.half ? "half-" : "";
+  const dbl = rel.double ? "double " : "";
+  let term: string;
+  switch (rel.kind) {
+    case "self": {
+      return `${a} and ${b} are the same individual`;
+    }
+    case "unrelated": {
+      return `${a} and ${b} are not related`;
+    }
+    case "ancestor": {
+      const base = up == 1 ? "" : "grand";
+      term = greats(up - 2) + base + gendered(P, b, "father", "mother", "parent");
+      break;
+    }
+    case "descendant": {
+      const base = down == 1 ? "" : "grand";
+      term = greats(down - 2) + base + gendered(P, b, "son", "daughter", "child");
+      break;
+    }
+    case "sibling": {
+      term = half + gendered(P, b, "brother", "sister", "sibling");
+      break;
+    }
+    case "aunt-uncle": {
+      term = greats(up - 2) + half + gendered(P, b, "uncle", "aunt", "aunt/uncle");
+      break;
+    }
+    case "niece-nephew": {
+      term = greats(down - 2) + half + gendered(P, b, "nephew", "niece", "niece/nephew");
+      break;
+    }
+    case "cousin": {
+      term = `${dbl}${half}${ordinal(rel.cousinDegree)} cousin`;
+      if (rel.removed > 0) {
+        term += ` ${times(rel.removed)} removed`;
+      }
+      break;
+    }
+  }
+  return `${b} is the ${term} of ${a}`;
+}
+
+/**
+ * Classify the relationship between two individuals by way of their
+ * nearest common ancestors. Returns undefined if either individual is
+ * not in the pedigree.
+ *
+ * Where the individuals are related in more than one way (e.g. in a
+ * consanguineous family) the closest relationship is reported.
+ */
+export function classifyRelationship(
+  ped: PedigreeEntry[] | Pedigree,
+  a: DefiniteIdentifier,
+  b: DefiniteIdentifier
+): Relationship | undefined {
+  const P = ped instanceof Pedigree ? ped : new Pedigree(ped);
+  if (!P.has(a) || !P.has(b)) {
+    return undefined;
+  }
+
+  const rel: Relationship = { a, b, kind: "unrelated", up: 0, down: 0, half: false, double: false, description: "", paths: [] };
+  if (a === b) {
+    rel.kind = "self";
+    rel.paths.push({ ancestor: a, fromA: [a], fromB: [b] });
+    rel.description = describe(P, rel);
+    return rel;
+  }
+
+  const da = depths(P, a);
+  const db = depths(P, b);
+  const common: DefiniteIdentifier[] = [...da.keys()].filter((x) => db.has(x));
+
+  // The nearest common ancestors are those that are not
+  // themselves ancestors of another common ancestor.
+  //
+  const nearest = common.filter((x) => !common.some((y) => y !== x && P.ancestors(y).has(x)));
+  if (nearest.length == 0) {
+    rel.description = describe(P, rel);
+    return rel;
+  }
+  let best = Infinity;
+  for (const x of nearest) {
+    best = Math.min(best, da.get(x) + db.get(x));
+  }
+  const closest = nearest.filter((x) => da.get(x) + db.get(x) == best);
+  const up = Math.min(...closest.map((x) => da.get(x)));
+  const ancs = closest.filter((x) => da.get(x) == up);
+  const down = db.get(ancs[0]);
+  rel.up = up;
+  rel.down = down;
+
+  if (down == 0) {
+    rel.kind = "ancestor";
+  } else if (up == 0) {
+    rel.kind = "descendant";
+  } else if (up == 1 && down == 1) {
+    rel.kind = "sibling";
+  } else if (up == 1) {
+    rel.kind = "niece-nephew";
+  } else if (down == 1) {
+    rel.kind = "aunt-uncle";
+  } else {
+    rel.kind = "cousin";
+    rel.cousinDegree = Math.min(up, down) - 1;
+    rel.removed = Math.abs(up - down);
+  }
+  if (up > 0 && down > 0) {
+    // Collateral relatives normally share a couple; sharing only
+    // one ancestor makes them half relatives, and sharing two
+    // couples makes them double relatives.
+    rel.half = ancs.length == 1;
+    rel.double = ancs.length >= 4;
+  }
+
+  for (const anc of ancs) {
+    for (const fromA of routes(P, a, anc, up)) {
+      for (const fromB of routes(P, b, anc, down)) {
+        rel.paths.push({ ancestor: anc, fromA, fromB });
+      }
+    }
+  }
+  rel.description = describe(P, rel);
+  return rel;
+}
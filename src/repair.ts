@@ -0,0 +1,176 @@
+import { DefiniteIdentifier, Identifier, PedigreeEntry } from "./pedigree";
+import {
+  PedigreeNormalizationOptions,
+  SexEncoding,
+  defaultMissingIdentifiers,
+  defaultSexEncoding,
+  isMissingIdentifier,
+  normalizeAffected,
+  normalizeSex,
+} from "./normalize";
+import { splitFamilies } from "./families";
+
+export interface PedigreeRepairOptions {
+  /**
+   * Drop rows that repeat an earlier row exactly (after normalising sex and affection status).
+   * Default: false.
+   */
+  dropDuplicates: boolean;
+
+  /**
+   * Add a founder row for each parent who is referred to but never defined.
+   * Default: false.
+   */
+  addFounders: boolean;
+
+  /**
+   * Set the sex of individuals whose sex is unknown, but who occur only as a father or only as a mother.
+   * Default: false.
+   */
+  inferSex: boolean;
+
+  /**
+   * Move individuals that are not connected to the largest group in their family into new families.
+   * Default: false.
+   */
+  splitUnconnected: boolean;
+}
+
+export const noRepairs: PedigreeRepairOptions = {
+  dropDuplicates: false,
+  addFounders: false,
+  inferSex: false,
+  splitUnconnected: false,
+};
+
+export const allRepairs: PedigreeRepairOptions = {
+  dropDuplicates: true,
+  addFounders: true,
+  inferSex: true,
+  splitUnconnected: true,
+};
+
+export interface PedigreeRepair {
+  kind: keyof PedigreeRepairOptions;
+  sample: DefiniteIdentifier;
+  description: string;
+}
+
+export interface PedigreeRepairResult {
+  pedigree: PedigreeEntry[];
+  changes: PedigreeRepair[];
+}
+
+function rowKey(row: PedigreeEntry, missing: Identifier[], encoding: SexEncoding): string {
+  return JSON.stringify([
+    row.family,
+    row.sample,
+    isMissingIdentifier(row.father, missing) ? null : row.father,
+    isMissingIdentifier(row.mother, missing) ? null : row.mother,
+    normalizeSex(row.sex, encoding),
+    row.affected === undefined ? undefined : normalizeAffected(row.affected),
+    row.proband || false,
+    row.deceased || false,
+    row.birth === undefined ? null : row.birth,
+    row.death === undefined ? null : row.death,
+    row.phenotypes || null,
+    row.hpo || null,
+    row.twin || null,
+  ]);
+}
+
+/**
+ * Produce a corrected copy of a pedigree, along with a record of the changes.
+ * Parents among the missing identifiers of the normalization options are left
+ * as they are, rather than being taken as individuals. The rows passed in are not modified.
+ */
+export function repairPedigree(
+  ped: PedigreeEntry[],
+  options: Partial<PedigreeRepairOptions> = {},
+  normalization: Partial<PedigreeNormalizationOptions> = {}
+): PedigreeRepairResult {
+  const opts: PedigreeRepairOptions = { ...noRepairs, ...options };
+  const missing = normalization.missing || defaultMissingIdentifiers;
+  const encoding = normalization.sex || defaultSexEncoding;
+  const result: PedigreeRepairResult = { pedigree: [], changes: [] };
+
+  const keys = new Set<string>();
+  for (const row of ped) {
+    if (opts.dropDuplicates) {
+      const key = rowKey(row, missing, encoding);
+      if (keys.has(key)) {
+        result.changes.push({ kind: "dropDuplicates", sample: row.sample, description: `Removed a duplicate row for ${row.sample}.` });
+        continue;
+      }
+      keys.add(key);
+    }
+    result.pedigree.push({ ...row });
+  }
+
+  const defined = new Set<DefiniteIdentifier>();
+  const dads = new Set<DefiniteIdentifier>();
+  const mums = new Set<DefiniteIdentifier>();
+  for (const row of result.pedigree) {
+    defined.add(row.sample);
+    if (!isMissingIdentifier(row.father, missing)) {
+      dads.add(row.father);
+    }
+    if (!isMissingIdentifier(row.mother, missing)) {
+      mums.add(row.mother);
+    }
+  }
+  const roleSex = (who: DefiniteIdentifier): "Male" | "Female" | null => {
+    if (dads.has(who) && !mums.has(who)) {
+      return "Male";
+    }
+    if (mums.has(who) && !dads.has(who)) {
+      return "Female";
+    }
+    return null;
+  };
+
+  if (opts.inferSex) {
+    for (const row of result.pedigree) {
+      const sex = roleSex(row.sample);
+      if (normalizeSex(row.sex, encoding) === null && sex !== null) {
+        row.sex = sex;
+        result.changes.push({ kind: "inferSex", sample: row.sample, description: `Set the sex of ${row.sample} to ${sex}.` });
+      }
+    }
+  }
+
+  if (opts.addFounders) {
+    const founders: PedigreeEntry[] = [];
+    for (const row of result.pedigree) {
+      for (const par of [row.father, row.mother]) {
+        if (isMissingIdentifier(par, missing) || defined.has(par)) {
+          continue;
+        }
+        defined.add(par);
+        founders.push({ family: row.family, sample: par, father: null, mother: null, sex: roleSex(par) });
+        result.changes.push({ kind: "addFounders", sample: par, description: `Added a founder row for ${par}.` });
+      }
+    }
+    result.pedigree.push(...founders);
+  }
+
+  if (opts.splitUnconnected) {
+    const split = splitFamilies(result.pedigree, {}, normalization);
+    for (const [famid, newids] of split.families) {
+      for (const newid of newids.slice(1)) {
+        for (const row of split.pedigree) {
+          if (row.family === newid) {
+            result.changes.push({
+              kind: "splitUnconnected",
+              sample: row.sample,
+              description: `Moved ${row.sample} from family ${famid} to ${newid}.`,
+            });
+          }
+        }
+      }
+    }
+    result.pedigree = split.pedigree;
+  }
+
+  return result;
+}
@@ -0,0 +1,140 @@
+import {
+  DefiniteIdentifier,
+  PedigreeEntry,
+  PedigreeValidationOptions,
+  PedigreeValidationResult,
+  ProblemIssue,
+  addProblem,
+  strict,
+} from "./pedigree";
+import { PedigreeNormalizationOptions, defaultMissingIdentifiers, isMissingIdentifier, normalizePedigree } from "./normalize";
+
+/**
+ * The sample names from the `#CHROM` header line of a VCF file, or undefined if there is none.
+ */
+export function parseVcfSamples(text: string): string[] | undefined {
+  for (const line of text.split(/\r?\n/)) {
+    if (line.startsWith("#CHROM")) {
+      return line.split("\t").slice(9);
+    }
+    if (!line.startsWith("#")) {
+      break;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Compare a pedigree with the samples for which there is data, e.g. from `parseVcfSamples`
+ * or a sample sheet, using the `unsequenced`, `unknownSample` and `incompleteTrio` options.
+ * Identifiers are compared as strings, since sample lists are text.
+ */
+export function crossCheckSamples(
+  ped: PedigreeEntry[],
+  samples: Iterable<DefiniteIdentifier>,
+  options: PedigreeValidationOptions = strict,
+  normalization: Partial<PedigreeNormalizationOptions> = {}
+): PedigreeValidationResult {
+  const missing = normalization.missing || defaultMissingIdentifiers;
+  const result: PedigreeValidationResult = { ok: true, reasons: [], problematic: new Set(), whys: {}, issues: [] };
+  ped = normalizePedigree(ped, normalization);
+  const sequenced = new Set<string>([...samples].map(String));
+
+  // Everyone, including parents without rows of their own, with
+  // their identifier as given and the family of the first row to mention them.
+  //
+  const defining = new Map<string, number[]>();
+  const everyone = new Map<string, [DefiniteIdentifier, DefiniteIdentifier]>();
+  ped.forEach((row, i) => {
+    const who = String(row.sample);
+    defining.set(who, [...(defining.get(who) || []), i]);
+    for (const x of [row.sample, row.father, row.mother]) {
+      if (!isMissingIdentifier(x, missing) && !everyone.has(String(x))) {
+        everyone.set(String(x), [x, row.family]);
+      }
+    }
+  });
+
+  const unsequenced: ProblemIssue[] = [];
+  for (const [key, [who, family]] of everyone) {
+    if (!sequenced.has(key)) {
+      const rows = defining.get(key) || [];
+      unsequenced.push({
+        code: "sample",
+        detail: "Person has no data.",
+        family: rows.length > 0 ? ped[rows[0]].family : family,
+        individuals: [who],
+        rows,
+        related: [],
+      });
+    }
+  }
+  if (unsequenced.length > 0) {
+    addProblem(
+      options,
+      result,
+      "unsequenced",
+      "There is at least one individual in the pedigree with no data.",
+      unsequenced.map((i) => [i.individuals[0], i.detail]),
+      unsequenced
+    );
+  }
+
+  const unknown: ProblemIssue[] = [];
+  for (const who of sequenced) {
+    if (!everyone.has(who)) {
+      unknown.push({
+        code: "sample",
+        detail: "Sample is not in the pedigree.",
+        family: null,
+        individuals: [who],
+        rows: [],
+        related: [],
+      });
+    }
+  }
+  if (unknown.length > 0) {
+    addProblem(
+      options,
+      result,
+      "unknownSample",
+      "There is at least one sample with data that is not in the pedigree.",
+      unknown.map((i) => [i.individuals[0], i.detail]),
+      unknown
+    );
+  }
+
+  // A trio is incomplete if some, but not all, of the child and parents have data.
+  // The members without data are the related individuals.
+  //
+  const incomplete: ProblemIssue[] = [];
+  for (const [who, rows] of defining) {
+    const row = ped[rows[0]];
+    if (isMissingIdentifier(row.father, missing) || isMissingIdentifier(row.mother, missing)) {
+      continue;
+    }
+    const trio = [row.sample, row.father, row.mother];
+    const without = trio.filter((x) => !sequenced.has(String(x)));
+    if (without.length > 0 && without.length < 3) {
+      incomplete.push({
+        code: "trio",
+        detail: "Person and their parents form a trio, but not all of them have data.",
+        family: row.family,
+        individuals: [row.sample],
+        rows,
+        related: without,
+      });
+    }
+  }
+  if (incomplete.length > 0) {
+    addProblem(
+      options,
+      result,
+      "incompleteTrio",
+      "There is at least one trio in which some, but not all, individuals have data.",
+      incomplete.map((i) => [i.individuals[0], i.detail]),
+      incomplete
+    );
+  }
+  return result;
+}
@@ -0,0 +1,165 @@
+import { DefiniteIdentifier, PedigreeEntry, PedigreeValidationResult } from "./pedigree";
+import { PedigreeNormalizationOptions, defaultSexEncoding, normalizeAffected, normalizeSex } from "./normalize";
+import { FamilyLayout, LayoutNode, LayoutSegment } from "./layout";
+import { Pedigree } from "./model";
+
+export interface SvgOptions {
+  /**
+   * Space around the drawing.
+   * Default: 20.
+   */
+  margin: number;
+
+  /**
+   * Write each individual's identifier below their symbol?
+   * Default: true.
+   */
+  labels: boolean;
+
+  /**
+   * The colour used for lines and affected symbols.
+   * Default: "black".
+   */
+  stroke: string;
+
+  /**
+   * The colour used to highlight individuals with validation problems.
+   * Default: "red".
+   */
+  highlight: string;
+
+  /**
+   * A validation result whose problematic individuals are highlighted,
+   * with their reasons shown as a tooltip.
+   * Default: undefined => no highlighting.
+   */
+  validation?: PedigreeValidationResult;
+}
+
+export const defaultSvgOptions: SvgOptions = {
+  margin: 20,
+  labels: true,
+  stroke: "black",
+  highlight: "red",
+};
+
+function escape(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function line(x1: number, y1: number, x2: number, y2: number, stroke: string): string {
+  return `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="${stroke}"/>`;
+}
+
+function segment(seg: LayoutSegment, stroke: string): string {
+  if (!seg.consanguineous) {
+    return line(seg.x1, seg.y1, seg.x2, seg.y2, stroke);
+  }
+  // Mating lines are horizontal, so the double line is offset vertically.
+  return [line(seg.x1, seg.y1 - 2, seg.x2, seg.y2 - 2, stroke), line(seg.x1, seg.y1 + 2, seg.x2, seg.y2 + 2, stroke)].join("");
+}
+
+function symbol(node: LayoutNode, sex: "Male" | "Female" | null, fill: string, stroke: string, size: number): string {
+  const half = size / 2;
+  const style = `fill="${fill}" stroke="${stroke}"`;
+  switch (sex) {
+    case "Male": {
+      return `<rect x="${node.x - half}" y="${node.y - half}" width="${size}" height="${size}" ${style}/>`;
+    }
+    case "Female": {
+      return `<circle cx="${node.x}" cy="${node.y}" r="${half}" ${style}/>`;
+    }
+    default: {
+      const points = [
+        [node.x, node.y - half],
+        [node.x + half, node.y],
+        [node.x, node.y + half],
+        [node.x - half, node.y],
+      ];
+      return `<polygon points="${points.map((p) => p.join(",")).join(" ")}" ${style}/>`;
+    }
+  }
+}
+
+/**
+ * Render one family's layout as a standalone SVG document using standard
+ * pedigree notation: squares for males, circles for females and diamonds
+ * for unknown sex; filled symbols for affected individuals; a slash through
+ * deceased individuals (or those with a date of death); an arrow pointing at the proband; and a double
+ * mating line for consanguineous couples.
+ *
+ * Individuals without a row of their own (implied parents) are drawn
+ * according to whether they are used as a father or a mother. When building
+ * the model from rows, the normalization options say which parents are missing,
+ * and their encoding of sex is used to choose the symbols.
+ */
+export function renderSvg(
+  layout: FamilyLayout,
+  ped: PedigreeEntry[] | Pedigree,
+  options: Partial<SvgOptions> = {},
+  normalization: Partial<PedigreeNormalizationOptions> = {}
+): string {
+  const opts: SvgOptions = { ...defaultSvgOptions, ...options };
+  const P = ped instanceof Pedigree ? ped : new Pedigree(ped, normalization);
+  const encoding = normalization.sex || defaultSexEncoding;
+
+  const roles = new Map<DefiniteIdentifier, "Male" | "Female">();
+  for (const row of P.entries) {
+    if (P.known(row.father)) {
+      roles.set(row.father, "Male");
+    }
+    if (P.known(row.mother)) {
+      roles.set(row.mother, "Female");
+    }
+  }
+
+  const size = layout.nodeSize;
+  const half = size / 2;
+  const labelHeight = opts.labels ? 16 : 0;
+  const width = layout.width + 2 * opts.margin;
+  const height = layout.height + labelHeight + 2 * opts.margin;
+
+  const parts: string[] = [];
+  parts.push(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${-opts.margin} ${-opts.margin} ${width} ${height}">`
+  );
+  parts.push(`<title>${escape(String(layout.family))}</title>`);
+
+  for (const seg of layout.segments) {
+    parts.push(segment(seg, opts.stroke));
+  }
+
+  for (const node of layout.nodes) {
+    const row = P.entry(node.id);
+    const sex = row ? normalizeSex(row.sex, encoding) || null : roles.get(node.id) || null;
+    const affected = row ? normalizeAffected(row.affected) == "Affected" : false;
+    const problems = opts.validation && opts.validation.problematic.has(node.id) ? opts.validation.whys[node.id] || [] : null;
+
+    parts.push(`<g class="individual${problems ? " problematic" : ""}" data-id="${escape(String(node.id))}">`);
+    if (problems) {
+      parts.push(`<title>${escape(problems.join("\n"))}</title>`);
+      const box = `x="${node.x - half - 4}" y="${node.y - half - 4}" width="${size + 8}" height="${size + 8}"`;
+      parts.push(`<rect ${box} fill="none" stroke="${opts.highlight}" stroke-width="2"/>`);
+    }
+    parts.push(symbol(node, sex, affected ? opts.stroke : "white", opts.stroke, size));
+    if (row && (row.deceased || (row.death !== undefined && row.death !== null))) {
+      parts.push(line(node.x - half - 4, node.y + half + 4, node.x + half + 4, node.y - half - 4, opts.stroke));
+    }
+    if (row && row.proband) {
+      // An arrow from the lower left, with its head at the edge of the symbol.
+      const tipX = node.x - half;
+      const tipY = node.y + half;
+      parts.push(line(tipX - half, tipY + half, tipX, tipY, opts.stroke));
+      parts.push(`<polygon points="${tipX},${tipY} ${tipX - 8},${tipY + 3} ${tipX - 3},${tipY + 8}" fill="${opts.stroke}"/>`);
+    }
+    if (opts.labels) {
+      parts.push(
+        `<text x="${node.x}" y="${node.y + half + 14}" text-anchor="middle" font-size="12">${escape(String(node.id))}</text>`
+      );
+    }
+    parts.push(`</g>`);
+  }
+
+  parts.push(`</svg>`);
+  return parts.join("\n");
+}
@@ -0,0 +1,226 @@
+import { CliIO, runCli } from "../src/cli";
+import { registerValidationRule, unregisterValidationRule } from "../src/pedigree";
+
+import * as mocha from "mocha";
+import * as chai from "chai";
+
+const expect = chai.expect;
+
+const trio = ["FAM01\tSAM001\tSAM002\tSAM003\t1\t2", "FAM01\tSAM002\t0\t0\t1\t1", "FAM01\tSAM003\t0\t0\t2\t1", ""].join("\n");
+
+const twoFamilies = trio + ["FAM02\tSAM004\t0\t0\t2\t2", ""].join("\n");
+
+interface FakeIO extends CliIO {
+  out: string;
+  err: string;
+}
+
+function fakeIO(files: { [path: string]: string }): FakeIO {
+  const io: FakeIO = {
+    out: "",
+    err: "",
+    read: (path) => {
+      if (!(path in files)) {
+        throw new Error(`ENOENT: ${path}`);
+      }
+      return files[path];
+    },
+    stdout: (text) => {
+      io.out += text;
+    },
+    stderr: (text) => {
+      io.err += text;
+    },
+  };
+  return io;
+}
+
+describe("command line", () => {
+  it("validate a good pedigree", () => {
+    const io = fakeIO({ "trio.ped": trio });
+    expect(runCli(["validate", "trio.ped"], io)).to.eql(0);
+    expect(io.out).to.eql("OK\n");
+    expect(io.err).to.eql("");
+  });
+
+  it("validate a bad pedigree", () => {
+    const io = fakeIO({ "two.ped": twoFamilies });
+    expect(runCli(["validate", "two.ped"], io)).to.eql(1);
+    expect(io.out).to.match(/^ERROR multipleFamilies\.families: /m);
+    expect(io.out).to.match(/error\(s\), 0 warning\(s\)\.\n$/);
+  });
+
+  it("validate with options overridden", () => {
+    const io = fakeIO({ "two.ped": twoFamilies });
+    expect(runCli(["validate", "--multipleFamilies=warning", "two.ped"], io)).to.eql(0);
+    expect(io.out).to.match(/^WARNING multipleFamilies\./m);
+    expect(io.out).to.match(/0 error\(s\), 1 warning\(s\)\.\n$/);
+  });
+
+  it("validate with a registered rule", () => {
+    registerValidationRule({
+      name: "noFamily02",
+      severity: "error",
+      check: (context) => {
+        if (context.families.has("FAM02")) {
+          context.report("FAM02 is not allowed.");
+        }
+      },
+    });
+    try {
+      const io = fakeIO({ "two.ped": twoFamilies });
+      expect(runCli(["validate", "--multipleFamilies=ignore", "--noFamily02=warning", "two.ped"], io)).to.eql(0);
+      expect(io.out).to.match(/^WARNING noFamily02: FAM02 is not allowed\.$/m);
+    } finally {
+      unregisterValidationRule("noFamily02");
+    }
+  });
+
+  it("validate with a preset", () => {
+    const io = fakeIO({ "two.ped": twoFamilies });
+    expect(runCli(["validate", "--preset=permissive", "two.ped"], io)).to.eql(0);
+  });
+
+  it("validate against a sample list", () => {
+    const io = fakeIO({ "trio.ped": trio, "samples.txt": "SAM001\nSAM002\nSAM009\n" });
+    expect(runCli(["validate", "--samples=samples.txt", "trio.ped"], io)).to.eql(1);
+    expect(io.out).to.match(/^ERROR unknownSample\.sample SAM009: /m);
+    expect(io.out).to.match(/^WARNING incompleteTrio\.trio SAM001: /m);
+
+    const vcf = fakeIO({
+      "trio.ped": trio,
+      "calls.vcf": "#CHROM\tPOS\tID\tREF\tALT\tQUAL\tFILTER\tINFO\tFORMAT\tSAM001\tSAM002\tSAM003\n",
+    });
+    expect(runCli(["validate", "--samples=calls.vcf", "trio.ped"], vcf)).to.eql(0);
+    expect(vcf.out).to.eql("OK\n");
+  });
+
+  it("validate with JSON output", () => {
+    const io = fakeIO({ "two.ped": twoFamilies });
+    expect(runCli(["validate", "--output=json", "two.ped"], io)).to.eql(1);
+    const result = JSON.parse(io.out);
+    expect(result.ok).to.be.false;
+    expect(result.issues.map((issue: { check: string }) => issue.check)).to.include("multipleFamilies");
+  });
+
+  it("convert PED to JSON and back", () => {
+    const io = fakeIO({ "trio.ped": trio });
+    expect(runCli(["convert", "trio.ped"], io)).to.eql(0);
+    const entries = JSON.parse(io.out);
+    expect(entries[0]).to.eql({
+      family: "FAM01",
+      sample: "SAM001",
+      father: "SAM002",
+      mother: "SAM003",
+      sex: "Male",
+      affected: "Affected",
+    });
+
+    const back = fakeIO({ "trio.json": io.out });
+    expect(runCli(["convert", "--to=ped", "trio.json"], back)).to.eql(0);
+    expect(back.out).to.eql(trio);
+  });
+
+  it("convert to GEDCOM and Phenopacket", () => {
+    const io = fakeIO({ "trio.ped": trio });
+    expect(runCli(["convert", "--to=gedcom", "trio.ped"], io)).to.eql(0);
+    expect(io.out).to.match(/^0 HEAD/);
+
+    const ged = fakeIO({ "trio.ged": io.out });
+    expect(runCli(["convert", "--to=phenopacket", "trio.ged"], ged)).to.eql(0);
+    const family = JSON.parse(ged.out);
+    expect(family.pedigree.persons.length).to.eql(3);
+    expect(ged.err).to.eql("warning: The pedigree has no proband.\n");
+
+    const packet = fakeIO({ "family.json": ged.out });
+    expect(runCli(["convert", "--to=ped", "family.json"], packet)).to.eql(0);
+    // GEDCOM has no affection status.
+    expect(packet.out).to.eql(trio.replace(/\t[12]\n/g, "\t-9\n"));
+  });
+
+  it("normalize PLINK codes", () => {
+    const io = fakeIO({ "trio.json": JSON.stringify([{ family: "F", sample: "A", father: "0", mother: "0", sex: 2 }]) });
+    expect(runCli(["normalize", "--plink", "trio.json"], io)).to.eql(0);
+    expect(JSON.parse(io.out)).to.eql([{ family: "F", sample: "A", father: null, mother: null, sex: "Female" }]);
+  });
+
+  it("convert with PLINK missing parents", () => {
+    const plink = [
+      { family: "F", sample: "A", father: "-9", mother: "-9", sex: "1" },
+      { family: "F", sample: "B", father: "A", mother: "-9", sex: "2" },
+    ];
+    const io = fakeIO({ "plink.json": JSON.stringify(plink) });
+    expect(runCli(["convert", "--plink", "--to=ped", "plink.json"], io)).to.eql(0);
+    expect(io.out).to.eql(["F\tA\t0\t0\t1\t-9", "F\tB\tA\t0\t2\t-9", ""].join("\n"));
+
+    const packet = fakeIO({ "plink.json": JSON.stringify(plink) });
+    expect(runCli(["convert", "--plink", "--to=phenopacket", "plink.json"], packet)).to.eql(0);
+    const family = JSON.parse(packet.out);
+    expect(family.pedigree.persons.map((p: { paternalId: string; maternalId: string }) => [p.paternalId, p.maternalId])).to.eql([
+      ["0", "0"],
+      ["A", "0"],
+    ]);
+  });
+
+  it("convert PLINK sex codes", () => {
+    const io = fakeIO({ "plink.json": JSON.stringify([{ family: "F", sample: "A", father: "0", mother: "0", sex: "M" }]) });
+    expect(runCli(["convert", "--plink", "--to=ped", "plink.json"], io)).to.eql(0);
+    expect(io.out).to.eql("F\tA\t0\t0\t1\t-9\n");
+  });
+
+  it("stats", () => {
+    const io = fakeIO({ "two.ped": twoFamilies });
+    expect(runCli(["stats", "--output=json", "two.ped"], io)).to.eql(0);
+    expect(JSON.parse(io.out)).to.eql({
+      families: 2,
+      individuals: 4,
+      rows: 4,
+      males: 2,
+      females: 2,
+      unknownSex: 0,
+      affected: 2,
+      unaffected: 2,
+      founders: 3,
+      generations: 2,
+      matingPairs: 1,
+    });
+
+    const text = fakeIO({ "two.ped": twoFamilies });
+    expect(runCli(["stats", "two.ped"], text)).to.eql(0);
+    expect(text.out).to.match(/^families\t2\n/);
+  });
+
+  it("report input errors", () => {
+    const io = fakeIO({ "bad.ped": "FAM01\tSAM001\t0\n" });
+    expect(runCli(["validate", "bad.ped"], io)).to.eql(2);
+    expect(io.err).to.eql("bad.ped:1: Expected at least 5 columns, but found 3.\n");
+
+    const json = fakeIO({
+      "bad.json": JSON.stringify([null, { family: "F", sample: "A" }, { family: "F", sample: "B", sex: 1 }]),
+    });
+    expect(runCli(["validate", "bad.json"], json)).to.eql(2);
+    expect(json.err).to.eql("bad.json: entry 1: expected an object.\nbad.json: entry 2: missing sex.\n");
+
+    const missing = fakeIO({});
+    expect(runCli(["stats", "nowhere.ped"], missing)).to.eql(2);
+    expect(missing.err).to.eql("nowhere.ped: cannot be read.\n");
+  });
+
+  it("report usage errors", () => {
+    for (const args of [
+      ["validate"],
+      ["frobnicate", "trio.ped"],
+      ["validate", "--cycles=maybe", "trio.ped"],
+      ["validate", "--bogus", "trio.ped"],
+    ]) {
+      const io = fakeIO({ "trio.ped": trio });
+      expect(runCli(args, io)).to.eql(2);
+      expect(io.err).to.match(/Usage: pedigree-tools/);
+      expect(io.out).to.eql("");
+    }
+
+    const io = fakeIO({});
+    expect(runCli(["--help"], io)).to.eql(0);
+    expect(io.out).to.match(/^Usage: pedigree-tools/);
+  });
+});
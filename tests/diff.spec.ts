@@ -0,0 +1,100 @@
+import { PedigreeEntry } from "../src/pedigree";
+import { diffPedigrees } from "../src/diff";
+import { plinkSexEncoding } from "../src/normalize";
+
+import * as mocha from "mocha";
+import * as chai from "chai";
+
+const expect = chai.expect;
+
+const trio: PedigreeEntry[] = [
+  { family: "FAM01", sample: "SAM001", father: "SAM002", mother: "SAM003", sex: "1" },
+  { family: "FAM01", sample: "SAM002", sex: "1" },
+  { family: "FAM01", sample: "SAM003", sex: "2" },
+];
+
+describe("Compare versions of a pedigree.", () => {
+  it("no changes", () => {
+    const res = diffPedigrees(trio, [...trio].reverse());
+    expect(res).to.eql({ changes: [], summary: "No changes.", introduced: [], resolved: [] });
+  });
+  it("added, removed and changed", () => {
+    const after: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", father: "SAM002", mother: "0", sex: "2" },
+      { family: "FAM01", sample: "SAM002", sex: "Male" },
+      { family: "FAM01", sample: "SAM004", father: "SAM002", sex: "1" },
+    ];
+    const res = diffPedigrees(trio, after, { normalization: { missing: [null, "0"] } });
+    expect(res.changes).to.eql([
+      {
+        kind: "mother",
+        sample: "SAM001",
+        before: "SAM003",
+        after: null,
+        description: "Changed the mother of SAM001 from SAM003 to unknown.",
+      },
+      {
+        kind: "sex",
+        sample: "SAM001",
+        before: "Male",
+        after: "Female",
+        description: "Changed the sex of SAM001 from Male to Female.",
+      },
+      { kind: "removed", sample: "SAM003", before: "SAM003", after: null, description: "Removed SAM003." },
+      { kind: "added", sample: "SAM004", before: null, after: "SAM004", description: "Added SAM004." },
+    ]);
+    expect(res.summary).to.eql("1 added, 1 removed, 1 mothers changed, 1 sexes changed.");
+  });
+  it("renamed individuals are detected structurally", () => {
+    const after: PedigreeEntry[] = [
+      { family: "FAM01", sample: "CHILD", father: "DAD", mother: "MUM", sex: "1" },
+      { family: "FAM01", sample: "DAD", sex: "1" },
+      { family: "FAM01", sample: "MUM", sex: "2" },
+    ];
+    const res = diffPedigrees(trio, after);
+    expect(res.changes.map((change) => change.description)).to.eql([
+      "Renamed SAM001 to CHILD.",
+      "Renamed SAM002 to DAD.",
+      "Renamed SAM003 to MUM.",
+    ]);
+    expect(res.summary).to.eql("3 renamed.");
+  });
+  it("family moves", () => {
+    const after = trio.map((row) => ({ ...row, family: "FAM02" }));
+    const res = diffPedigrees(trio, after);
+    expect(res.changes.map((change) => change.kind)).to.eql(["family", "family", "family"]);
+    expect(res.changes[0].description).to.eql("Moved SAM001 from family FAM01 to FAM02.");
+  });
+  it("validation problems introduced and resolved", () => {
+    const before: PedigreeEntry[] = [...trio, { family: "FAM01", sample: "SAM003", sex: "2" }];
+    const after: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", father: "SAM002", mother: "SAM003", sex: "1" },
+      { family: "FAM01", sample: "SAM002", sex: "2" },
+      { family: "FAM01", sample: "SAM003", sex: "2" },
+    ];
+    const res = diffPedigrees(before, after);
+    expect(res.introduced.map((issue) => [issue.code, issue.individuals])).to.eql([["inconsistentSex.father", ["SAM002"]]]);
+    expect(res.resolved.map((issue) => [issue.code, issue.individuals])).to.eql([["duplicates.sample", ["SAM003"]]]);
+  });
+  it("numeric and string identifiers with the same spelling differ", () => {
+    const before: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", father: 1, sex: "1" },
+      { family: "FAM01", sample: 1, sex: "1" },
+      { family: "FAM01", sample: "1", sex: "1" },
+    ];
+    const after: PedigreeEntry[] = [{ ...before[0], father: "1", family: 1 }, before[1], { ...before[2], family: 1 }];
+    const res = diffPedigrees(before, after);
+    expect(res.changes.map((change) => change.description)).to.eql([
+      "Changed the father of SAM001 from 1 to 1.",
+      "Moved SAM001 from family FAM01 to 1.",
+      "Moved 1 from family FAM01 to 1.",
+    ]);
+    expect(res.changes.map((change) => typeof change.after)).to.eql(["string", "number", "number"]);
+  });
+  it("sexes are compared in the active encoding", () => {
+    const before: PedigreeEntry[] = [{ family: "FAM01", sample: "SAM001", sex: "M" }];
+    const after: PedigreeEntry[] = [{ family: "FAM01", sample: "SAM001", sex: 1 }];
+    expect(diffPedigrees(before, after, { normalization: { sex: plinkSexEncoding } }).changes).to.eql([]);
+    expect(diffPedigrees(before, after).changes.map((change) => change.kind)).to.eql(["sex"]);
+  });
+});
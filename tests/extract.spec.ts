@@ -0,0 +1,80 @@
+import { PedigreeEntry, strict, validatePedigree } from "../src/pedigree";
+import { extractNuclearFamily, extractPedigree, extractRelatives, extractTrio } from "../src/extract";
+
+import * as mocha from "mocha";
+import * as chai from "chai";
+
+const expect = chai.expect;
+
+// Three generations: GF x GM have A and B; A x W have P (the proband) and S;
+// B x H have C; P x Q have K.
+const ped: PedigreeEntry[] = [
+  { family: "FAM01", sample: "GF", sex: "1" },
+  { family: "FAM01", sample: "GM", sex: "2" },
+  { family: "FAM01", sample: "A", father: "GF", mother: "GM", sex: "1" },
+  { family: "FAM01", sample: "B", father: "GF", mother: "GM", sex: "2" },
+  { family: "FAM01", sample: "W", sex: "2" },
+  { family: "FAM01", sample: "H", sex: "1" },
+  { family: "FAM01", sample: "P", father: "A", mother: "W", sex: "1", proband: true, affected: 2 },
+  { family: "FAM01", sample: "S", father: "A", mother: "W", sex: "2" },
+  { family: "FAM01", sample: "C", father: "H", mother: "B", sex: "2" },
+  { family: "FAM01", sample: "Q", sex: "2" },
+  { family: "FAM01", sample: "K", father: "P", mother: "Q", sex: "1" },
+];
+
+function samples(rows: PedigreeEntry[]): string[] {
+  return rows.map((row) => String(row.sample));
+}
+
+describe("Extract sub-pedigrees.", () => {
+  it("unknown proband", () => {
+    expect(extractTrio(ped, "NOBODY")).to.be.undefined;
+    expect(extractNuclearFamily(ped, "NOBODY")).to.be.undefined;
+    expect(extractRelatives(ped, "NOBODY", 2)).to.be.undefined;
+  });
+  it("trio", () => {
+    const res = extractTrio(ped, "P");
+    expect(samples(res)).to.eql(["A", "W", "P"]);
+    expect(res[0]).to.eql({ family: "FAM01", sample: "A", father: null, mother: null, sex: "1" });
+    expect(ped[2].father).to.eql("GF");
+    expect(validatePedigree(res, strict).ok).to.be.true;
+  });
+  it("nuclear family", () => {
+    const res = extractNuclearFamily(ped, "P");
+    expect(samples(res)).to.eql(["A", "W", "P", "S"]);
+    expect(validatePedigree(res, strict).ok).to.be.true;
+  });
+  it("relatives within N meioses", () => {
+    expect(samples(extractRelatives(ped, "P", 0))).to.eql(["P"]);
+    expect(samples(extractRelatives(ped, "P", 1))).to.eql(["A", "W", "P", "K"]);
+    expect(samples(extractRelatives(ped, "P", 2))).to.eql(["GF", "GM", "A", "W", "P", "S", "K"]);
+    const res = extractRelatives(ped, "P", 4);
+    expect(samples(res)).to.eql(["GF", "GM", "A", "B", "W", "P", "S", "C", "K"]);
+    expect(res.find((row) => row.sample == "C").father).to.be.null;
+    expect(validatePedigree(res, strict).ok).to.be.true;
+  });
+  it("linking ancestors are added", () => {
+    const res = extractPedigree(ped, ["P", "C"]);
+    expect(samples(res)).to.eql(["GF", "A", "B", "P", "C"]);
+    expect(validatePedigree(res, strict).ok).to.be.true;
+  });
+  it("twins who lose their parents are no longer twins", () => {
+    const twins: PedigreeEntry[] = [
+      { family: "FAM01", sample: "D", sex: "1" },
+      { family: "FAM01", sample: "M", sex: "2" },
+      { family: "FAM01", sample: "T1", father: "D", mother: "M", sex: "2", twin: { group: 1, zygosity: "monozygotic" } },
+      { family: "FAM01", sample: "T2", father: "D", mother: "M", sex: "2", twin: { group: 1, zygosity: "monozygotic" } },
+    ];
+    expect(validatePedigree(twins, strict).ok).to.be.true;
+    const one = extractRelatives(twins, "T1", 0);
+    expect(one).to.eql([{ family: "FAM01", sample: "T1", father: null, mother: null, sex: "2" }]);
+    expect(validatePedigree(one, strict).ok).to.be.true;
+
+    const both = extractPedigree(twins, ["T1", "T2"]);
+    expect(samples(both)).to.eql(["D", "T1", "T2"]);
+    expect(both.some((row) => row.twin)).to.be.false;
+    expect(validatePedigree(both, strict).ok).to.be.true;
+
+    expect(extractNuclearFamily(twins, "T1").filter((row) => row.twin).length).to.eql(2);
+  });
+});
@@ -0,0 +1,105 @@
+import { PedigreeEntry } from "../src/pedigree";
+import { mergePedigrees, renameFamilies, renumberFamilies, splitFamilies } from "../src/families";
+
+import * as mocha from "mocha";
+import * as chai from "chai";
+
+const expect = chai.expect;
+
+describe("Split, rename and merge families.", () => {
+  it("split into connected groups", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", father: "SAM002", sex: "1" },
+      { family: "FAM01", sample: "SAM003", mother: "SAM004", sex: "2" },
+      { family: "FAM01", sample: "SAM002", sex: "1" },
+      { family: "FAM01", sample: "SAM005", sex: "2" },
+      { family: "FAM02", sample: "SAM006", sex: "2" },
+    ];
+    const res = splitFamilies(ped);
+    expect(res.pedigree.map((row) => row.family)).to.eql(["FAM01", "FAM01_2", "FAM01", "FAM01_3", "FAM02"]);
+    expect([...res.families]).to.eql([
+      ["FAM01", ["FAM01", "FAM01_2", "FAM01_3"]],
+      ["FAM02", ["FAM02"]],
+    ]);
+    expect(ped[1].family).to.eql("FAM01");
+  });
+  it("split with generated names that avoid existing families", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "A", sample: "SAM001", sex: "1" },
+      { family: "A", sample: "SAM002", sex: "1" },
+      { family: "A-2", sample: "SAM003", sex: "1" },
+    ];
+    const res = splitFamilies(ped, { name: (famid, n) => `${famid}-${n}` });
+    expect(res.pedigree.map((row) => row.family)).to.eql(["A", "A-3", "A-2"]);
+  });
+  it("rename families", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", sex: "1" },
+      { family: "FAM02", sample: "SAM002", sex: "1" },
+    ];
+    expect(renameFamilies(ped, { FAM01: "X" }).map((row) => row.family)).to.eql(["X", "FAM02"]);
+    expect(renameFamilies(ped, (famid) => `${famid}a`).map((row) => row.family)).to.eql(["FAM01a", "FAM02a"]);
+    expect(ped[0].family).to.eql("FAM01");
+  });
+  it("renumber families", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "smith", sample: "SAM001", sex: "1" },
+      { family: "jones", sample: "SAM002", sex: "1" },
+      { family: "smith", sample: "SAM003", sex: "1" },
+    ];
+    expect(renumberFamilies(ped).map((row) => row.family)).to.eql(["FAM01", "FAM02", "FAM01"]);
+    expect(renumberFamilies(ped, { prefix: "F", start: 9, digits: 3 }).map((row) => row.family)).to.eql(["F009", "F010", "F009"]);
+  });
+  it("merge filling in missing details", () => {
+    const first: PedigreeEntry[] = [{ family: "FAM01", sample: "SAM001", father: "SAM002", sex: 0 }];
+    const second: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", mother: "SAM003", sex: "Male", affected: 2 },
+      { family: "FAM01", sample: "SAM003", sex: "2" },
+    ];
+    const res = mergePedigrees(first, second);
+    expect(res.ok).to.be.true;
+    expect(res.conflicts).to.eql([]);
+    expect(res.pedigree).to.eql([
+      { family: "FAM01", sample: "SAM001", father: "SAM002", mother: "SAM003", sex: "Male", affected: 2 },
+      { family: "FAM01", sample: "SAM003", sex: "2" },
+    ]);
+    expect(first[0].mother).to.be.undefined;
+  });
+  it("merge with conflicts", () => {
+    const first: PedigreeEntry[] = [{ family: "FAM01", sample: "SAM001", father: "SAM002", mother: "SAM003", sex: "1" }];
+    const second: PedigreeEntry[] = [{ family: "FAM02", sample: "SAM001", father: "SAM004", mother: "SAM003", sex: "Female" }];
+    const res = mergePedigrees(first, second);
+    expect(res.ok).to.be.false;
+    expect(res.conflicts).to.eql([
+      { sample: "SAM001", field: "family", first: "FAM01", second: "FAM02" },
+      { sample: "SAM001", field: "father", first: "SAM002", second: "SAM004" },
+      { sample: "SAM001", field: "sex", first: "1", second: "Female" },
+    ]);
+    expect(res.pedigree).to.eql(first);
+  });
+  it("identifiers that are names of object properties", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "constructor", sample: "a", sex: "1" },
+      { family: "toString", sample: "b", sex: "1" },
+    ];
+    expect(renumberFamilies(ped).map((row) => row.family)).to.eql(["FAM01", "FAM02"]);
+    expect(renameFamilies(ped, { FAM01: "X" }).map((row) => row.family)).to.eql(["constructor", "toString"]);
+    expect(splitFamilies(ped).pedigree).to.eql(ped);
+
+    const first: PedigreeEntry[] = [{ family: "F", sample: "a", sex: "1" }];
+    const res = mergePedigrees(first, [{ family: "F", sample: "toString", sex: "2" }]);
+    expect(res.ok).to.be.true;
+    expect(res.conflicts).to.eql([]);
+    expect(res.pedigree).to.eql([first[0], { family: "F", sample: "toString", sex: "2" }]);
+  });
+  it("merge numeric and string identifiers with the same spelling", () => {
+    const first: PedigreeEntry[] = [{ family: 1, sample: "SAM001", father: 2, sex: "1" }];
+    const second: PedigreeEntry[] = [{ family: "1", sample: "SAM001", father: "2", sex: "1" }];
+    const res = mergePedigrees(first, second);
+    expect(res.ok).to.be.false;
+    expect(res.conflicts).to.eql([
+      { sample: "SAM001", field: "family", first: 1, second: "1" },
+      { sample: "SAM001", field: "father", first: 2, second: "2" },
+    ]);
+  });
+});
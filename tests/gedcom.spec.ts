@@ -0,0 +1,174 @@
+import { PedigreeEntry } from "../src/pedigree";
+import { formatGedcom, parseGedcom } from "../src/gedcom";
+
+import * as mocha from "mocha";
+import * as chai from "chai";
+
+const expect = chai.expect;
+
+const trio = [
+  "0 HEAD",
+  "1 GEDC",
+  "2 VERS 5.5.1",
+  "0 @I1@ INDI",
+  "1 NAME John /Smith/",
+  "1 SEX M",
+  "1 BIRT",
+  "2 DATE 1 JAN 1950",
+  "1 DEAT Y",
+  "1 FAMS @F1@",
+  "0 @I2@ INDI",
+  "1 NAME Mary /Jones/",
+  "1 SEX F",
+  "1 FAMS @F1@",
+  "0 @I3@ INDI",
+  "1 SEX U",
+  "1 FAMC @F1@",
+  "0 @F1@ FAM",
+  "1 HUSB @I1@",
+  "1 WIFE @I2@",
+  "1 CHIL @I3@",
+  "0 TRLR",
+  "",
+].join("\n");
+
+describe("Read and write GEDCOM.", () => {
+  it("parse a trio", () => {
+    const res = parseGedcom(trio);
+    expect(res.ok).to.be.true;
+    expect(res.entries).to.eql([
+      { family: "FAM01", sample: "I1", father: null, mother: null, sex: "Male", deceased: true },
+      { family: "FAM01", sample: "I2", father: null, mother: null, sex: "Female" },
+      { family: "FAM01", sample: "I3", father: "I1", mother: "I2", sex: null },
+    ]);
+    expect(res.metadata).to.eql({ I1: { name: "John Smith", birth: "1 JAN 1950" }, I2: { name: "Mary Jones" } });
+    expect(res.warnings).to.eql([]);
+  });
+  it("parse errors", () => {
+    const res = parseGedcom("0 HEAD\nnonsense\n0 @I1@ INDI\n2 SEX M\n1 FAMC @F9@\n", { family: "X" });
+    expect(res.ok).to.be.false;
+    expect(res.errors).to.eql([
+      { line: 2, message: "Expected a level number and a tag.", text: "nonsense" },
+      { line: 4, message: "Level 2 does not follow on from level 0.", text: "2 SEX M" },
+      { line: 5, message: "FAMC does not refer to a known record.", text: "@F9@" },
+    ]);
+    expect(res.entries).to.eql([{ family: "X", sample: "I1", father: null, mother: null, sex: null }]);
+  });
+  it("unsupported constructs are warnings", () => {
+    const text = [
+      "0 @I1@ INDI",
+      "1 SEX F",
+      "0 @I2@ INDI",
+      "1 SEX F",
+      "0 @I3@ INDI",
+      "1 SEX M",
+      "1 FAMC @F1@",
+      "1 FAMC @F2@",
+      "2 PEDI adopted",
+      "0 @I4@ INDI",
+      "1 FAMC @F2@",
+      "1 FAMC @F3@",
+      "0 @I5@ INDI",
+      "1 SEX M",
+      "0 @F1@ FAM",
+      "1 WIFE @I1@",
+      "1 WIFE @I2@",
+      "0 @F2@ FAM",
+      "1 HUSB @I5@",
+      "1 WIFE @I1@",
+      "0 @F3@ FAM",
+      "1 HUSB @I3@",
+    ].join("\n");
+    const res = parseGedcom(text);
+    expect(res.ok).to.be.true;
+    expect(res.warnings.map((w) => [w.kind, w.records])).to.eql([
+      ["sameSexPartnership", ["F1", "I1", "I2"]],
+      ["adoption", ["I3", "F2"]],
+      ["multipleParentFamilies", ["I4", "F2", "F3"]],
+    ]);
+    expect(res.entries.map((row) => [row.sample, row.father, row.mother])).to.eql([
+      ["I1", null, null],
+      ["I2", null, null],
+      ["I3", null, null],
+      ["I4", "I5", "I1"],
+      ["I5", null, null],
+    ]);
+  });
+  it("format and parse again", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", father: "SAM002", mother: "SAM003", sex: "1" },
+      { family: "FAM01", sample: "SAM004", father: "SAM002", mother: "SAM003", sex: "2", deceased: true },
+      { family: "FAM01", sample: "SAM002", sex: "1" },
+    ];
+    const text = formatGedcom(ped, { SAM002: { name: "John Smith", birth: "1950" } });
+    expect(text).to.eql(
+      [
+        "0 HEAD",
+        "1 GEDC",
+        "2 VERS 5.5.1",
+        "2 FORM LINEAGE-LINKED",
+        "1 CHAR UTF-8",
+        "0 @I1@ INDI",
+        "1 SEX M",
+        "1 FAMC @F1@",
+        "1 REFN SAM001",
+        "0 @I2@ INDI",
+        "1 NAME John Smith",
+        "1 SEX M",
+        "1 BIRT",
+        "2 DATE 1950",
+        "1 FAMS @F1@",
+        "1 REFN SAM002",
+        "0 @I3@ INDI",
+        "1 SEX F",
+        "1 FAMS @F1@",
+        "1 REFN SAM003",
+        "0 @I4@ INDI",
+        "1 SEX F",
+        "1 DEAT Y",
+        "1 FAMC @F1@",
+        "1 REFN SAM004",
+        "0 @F1@ FAM",
+        "1 HUSB @I2@",
+        "1 WIFE @I3@",
+        "1 CHIL @I1@",
+        "1 CHIL @I4@",
+        "0 TRLR",
+        "",
+      ].join("\n")
+    );
+    const res = parseGedcom(text);
+    expect(res.ok).to.be.true;
+    expect(res.entries.map((row) => [row.sample, row.father, row.mother, row.sex])).to.eql([
+      ["SAM001", "SAM002", "SAM003", "Male"],
+      ["SAM002", null, null, "Male"],
+      ["SAM003", null, null, "Female"],
+      ["SAM004", "SAM002", "SAM003", "Female"],
+    ]);
+    expect(res.metadata).to.eql({ SAM002: { name: "John Smith", birth: "1950" } });
+  });
+  it("dates of the entries are written", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", sex: "1", birth: "1950-06-01", death: "2001-12" },
+      { family: "FAM01", sample: "SAM002", sex: "2", birth: 1952, death: "ABT 2010" },
+      { family: "FAM01", sample: "SAM003", sex: "2", birth: "1980" },
+    ];
+    const text = formatGedcom(ped, { SAM003: { birth: "BEF 1981" } });
+    const dates = text.split("\n").filter((line) => /^1 (BIRT|DEAT)|^2 DATE/.test(line));
+    expect(dates).to.eql([
+      "1 BIRT",
+      "2 DATE 1 JUN 1950",
+      "1 DEAT",
+      "2 DATE DEC 2001",
+      "1 BIRT",
+      "2 DATE 1952",
+      "1 DEAT",
+      "2 DATE ABT 2010",
+      "1 BIRT",
+      "2 DATE BEF 1981",
+    ]);
+    const res = parseGedcom(text);
+    expect(res.entries.map((row) => row.deceased)).to.eql([true, true, undefined]);
+    expect(res.metadata.SAM001).to.eql({ birth: "1 JUN 1950", death: "DEC 2001" });
+  });
+});
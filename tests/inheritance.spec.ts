@@ -0,0 +1,86 @@
+import { PedigreeEntry } from "../src/pedigree";
+import { evaluateInheritance } from "../src/inheritance";
+
+import * as mocha from "mocha";
+import * as chai from "chai";
+
+const expect = chai.expect;
+
+function compatible(ped: PedigreeEntry[]): string[] {
+  return evaluateInheritance(ped)
+    .filter((res) => res.compatible)
+    .map((res) => res.mode);
+}
+
+describe("Evaluate modes of inheritance.", () => {
+  it("affected child of unaffected parents", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", father: "SAM002", mother: "SAM003", sex: "1", affected: 2 },
+      { family: "FAM01", sample: "SAM002", sex: "1", affected: 1 },
+      { family: "FAM01", sample: "SAM003", sex: "2", affected: 1 },
+    ];
+    expect(compatible(ped)).to.eql(["autosomalRecessive", "xLinkedRecessive", "deNovo"]);
+    const [ad] = evaluateInheritance(ped, ["autosomalDominant"]);
+    expect(ad).to.eql({
+      mode: "autosomalDominant",
+      compatible: false,
+      informative: 2,
+      contradictions: [
+        { family: "FAM01", sample: "SAM001", related: ["SAM002", "SAM003"], reason: "Affected, but neither parent is affected." },
+      ],
+    });
+  });
+  it("male-to-male transmission", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", father: "SAM002", mother: "SAM003", sex: "1", affected: 2 },
+      { family: "FAM01", sample: "SAM002", sex: "1", affected: 2 },
+      { family: "FAM01", sample: "SAM003", sex: "2", affected: 1 },
+    ];
+    expect(compatible(ped)).to.eql(["autosomalDominant", "autosomalRecessive"]);
+    for (const res of evaluateInheritance(ped, ["xLinkedDominant", "xLinkedRecessive"])) {
+      expect(res.contradictions.map((c) => [c.sample, c.related, c.reason])).to.eql([
+        ["SAM001", ["SAM002", "SAM003"], "Male-to-male transmission: a son does not inherit his father's X."],
+      ]);
+    }
+  });
+  it("affected mother", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", father: "SAM002", mother: "SAM003", sex: "1", affected: 1 },
+      { family: "FAM01", sample: "SAM004", father: "SAM002", mother: "SAM003", sex: "2", affected: 2 },
+      { family: "FAM01", sample: "SAM002", sex: "1", affected: 1 },
+      { family: "FAM01", sample: "SAM003", sex: "2", affected: 2 },
+    ];
+    expect(compatible(ped)).to.eql(["autosomalDominant", "autosomalRecessive", "xLinkedDominant"]);
+    const [xlr, mt] = evaluateInheritance(ped, ["xLinkedRecessive", "mitochondrial"]);
+    expect(xlr.contradictions.map((c) => c.sample)).to.eql(["SAM001", "SAM004"]);
+    expect(mt.contradictions.map((c) => c.sample)).to.eql(["SAM001"]);
+  });
+  it("de novo", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", father: "SAM002", mother: "SAM003", sex: "1", affected: 2 },
+      { family: "FAM01", sample: "SAM004", father: "SAM002", mother: "SAM003", sex: "2", affected: 2 },
+      { family: "FAM01", sample: "SAM005", father: "SAM001", sex: "2", affected: 2 },
+    ];
+    const [dn] = evaluateInheritance(ped, ["deNovo"]);
+    expect(dn.contradictions.map((c) => [c.sample, c.related])).to.eql([
+      ["SAM001", ["SAM004"]],
+      ["SAM004", ["SAM001"]],
+      ["SAM005", ["SAM001"]],
+    ]);
+  });
+  it("unknown status and sex are not checked", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", father: "SAM002", mother: "SAM003", sex: "0", affected: 2 },
+      { family: "FAM01", sample: "SAM003", sex: "2", affected: 0 },
+    ];
+    expect(compatible(ped)).to.eql([
+      "autosomalDominant",
+      "autosomalRecessive",
+      "xLinkedDominant",
+      "xLinkedRecessive",
+      "mitochondrial",
+      "deNovo",
+    ]);
+    expect(evaluateInheritance(ped)[0].informative).to.eql(0);
+  });
+});
@@ -0,0 +1,89 @@
+import { PedigreeEntry } from "../src/pedigree";
+import { Kinship } from "../src/kinship";
+import { Pedigree } from "../src/model";
+
+import * as mocha from "mocha";
+import * as chai from "chai";
+
+const expect = chai.expect;
+
+// Two full sibs (S3, S4), a half sib (S5), first cousins (S8, S9),
+// and S10, the child of a half-sib mating.
+//
+const ped: PedigreeEntry[] = [
+  { family: "FAM01", sample: "S3", father: "S1", mother: "S2", sex: "1" },
+  { family: "FAM01", sample: "S4", father: "S1", mother: "S2", sex: "2" },
+  { family: "FAM01", sample: "S5", father: "S0", mother: "S2", sex: "1" },
+  { family: "FAM01", sample: "S8", father: "S3", mother: "S6", sex: "1" },
+  { family: "FAM01", sample: "S9", father: "S7", mother: "S4", sex: "2" },
+  { family: "FAM01", sample: "S10", father: "S5", mother: "S4", sex: "2" },
+  { family: "FAM02", sample: "T1", sex: "1" },
+];
+
+describe("Kinship coefficients.", () => {
+  const K = new Kinship(ped);
+  it("self and founders", () => {
+    expect(K.coefficient("S1", "S1")).to.eql(0.5);
+    expect(K.coefficient("S1", "S2")).to.eql(0);
+    expect(K.inbreeding("S1")).to.eql(0);
+  });
+  it("first degree", () => {
+    expect(K.coefficient("S1", "S3")).to.eql(0.25);
+    expect(K.coefficient("S3", "S1")).to.eql(0.25);
+    expect(K.coefficient("S3", "S4")).to.eql(0.25);
+  });
+  it("second and third degree", () => {
+    expect(K.coefficient("S3", "S5")).to.eql(0.125);
+    expect(K.coefficient("S1", "S8")).to.eql(0.125);
+    expect(K.coefficient("S8", "S9")).to.eql(0.0625);
+  });
+  it("inbreeding", () => {
+    expect(K.inbreeding("S10")).to.eql(0.125);
+    expect(K.coefficient("S10", "S10")).to.eql(0.5625);
+  });
+  it("different families and unknown individuals", () => {
+    expect(K.coefficient("S3", "T1")).to.eql(0);
+    expect(K.coefficient("S3", "nobody")).to.be.undefined;
+    expect(K.inbreeding("nobody")).to.be.undefined;
+  });
+  it("numbers and strings are different identifiers", () => {
+    const mixed: PedigreeEntry[] = [
+      { family: "F", sample: 1, sex: "1" },
+      { family: "F", sample: 2, sex: "2" },
+      { family: "F", sample: "1", father: 1, mother: 2, sex: "1" },
+    ];
+    const M = new Kinship(mixed);
+    expect(M.coefficient(1, "1")).to.eql(0.25);
+    expect(M.coefficient(1, 2)).to.eql(0);
+    expect(M.inbreeding("1")).to.eql(0);
+  });
+  it("several hundred members", () => {
+    // One family of ten generations of 30 sibships of a brother and sister.
+    // Each couple is the brother from one sibship and the sister from the next
+    // (wrapping around), so the whole pedigree is connected, and inbreeding first
+    // appears in the fourth generation, from couples whose parents include full sibs.
+    const big: PedigreeEntry[] = [];
+    const who = (g: number, s: number, sex: "1" | "2") => `G${g}S${s % 30}X${sex}`;
+    for (let g = 0; g < 10; ++g) {
+      for (let s = 0; s < 30; ++s) {
+        for (const sex of ["1", "2"] as const) {
+          const father = g == 0 ? null : who(g - 1, s, "1");
+          const mother = g == 0 ? null : who(g - 1, s + 1, "2");
+          big.push({ family: "BIG", sample: who(g, s, sex), father, mother, sex });
+        }
+      }
+    }
+    expect(big.length).to.eql(600);
+    expect(new Pedigree(big).components().length).to.eql(1);
+
+    const B = new Kinship(big);
+    expect(B.coefficient("G1S0X1", "G1S0X2")).to.eql(0.25);
+    expect(B.coefficient("G1S0X1", "G1S1X2")).to.eql(0);
+    expect(B.inbreeding("G2S0X1")).to.eql(0);
+    expect(B.inbreeding("G3S0X1")).to.eql(0.0625);
+    expect(B.inbreeding("G9S29X2")).to.be.greaterThan(0.0625);
+    // Ancestors spread by one sibship a generation, so distant sibships are unrelated.
+    expect(B.coefficient("G9S0X1", "G9S8X1")).to.be.greaterThan(0);
+    expect(B.coefficient("G9S0X1", "G9S15X1")).to.eql(0);
+  });
+});
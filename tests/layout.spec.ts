@@ -0,0 +1,77 @@
+import { PedigreeEntry } from "../src/pedigree";
+import { layoutPedigree } from "../src/layout";
+
+import * as mocha from "mocha";
+import * as chai from "chai";
+
+const expect = chai.expect;
+
+describe("Lay out pedigrees.", () => {
+  it("trio", () => {
+    const ped: PedigreeEntry[] = [{ family: "FAM01", sample: "SAM001", father: "SAM002", mother: "SAM003", sex: "1" }];
+    const [fam] = layoutPedigree(ped);
+    expect(fam.family).to.eql("FAM01");
+    expect(fam.nodes).to.eql([
+      { id: "SAM002", generation: 0, x: 20, y: 20 },
+      { id: "SAM003", generation: 0, x: 90, y: 20 },
+      { id: "SAM001", generation: 1, x: 55, y: 120 },
+    ]);
+    expect(fam.segments.map((s) => s.kind)).to.eql(["mating", "descent", "child"]);
+    expect(fam.width).to.eql(110);
+    expect(fam.height).to.eql(140);
+    expect(fam.unplaced).to.eql([]);
+  });
+  it("one layout per family", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", sex: "1" },
+      { family: "FAM02", sample: "SAM002", sex: "2" },
+    ];
+    expect(layoutPedigree(ped).map((fam) => fam.family)).to.eql(["FAM01", "FAM02"]);
+  });
+  it("spouses who marry in sit beside their partner", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", father: "SAM002", mother: "SAM003", sex: "1" },
+      { family: "FAM01", sample: "SAM004", father: "SAM002", mother: "SAM003", sex: "2" },
+      { family: "FAM01", sample: "SAM005", father: "SAM006", mother: "SAM004", sex: "2" },
+    ];
+    const [fam] = layoutPedigree(ped);
+    const gen1 = fam.nodes.filter((n) => n.generation == 1).map((n) => n.id);
+    expect(gen1).to.eql(["SAM001", "SAM004", "SAM006"]);
+  });
+  it("several spouses either side", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", father: "SAM002", mother: "SAM003", sex: "1" },
+      { family: "FAM01", sample: "SAM004", father: "SAM002", mother: "SAM005", sex: "1" },
+    ];
+    const [fam] = layoutPedigree(ped, { nodeSize: 10, horizontalGap: 10, verticalGap: 10 });
+    const gen0 = fam.nodes.filter((n) => n.generation == 0).map((n) => n.id);
+    expect(gen0).to.eql(["SAM003", "SAM002", "SAM005"]);
+    expect(fam.segments.filter((s) => s.kind == "mating").map((s) => s.individuals)).to.eql([
+      ["SAM003", "SAM002"],
+      ["SAM002", "SAM005"],
+    ]);
+  });
+  it("consanguineous matings", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "C1", father: "D", mother: "M", sex: "1" },
+      { family: "FAM01", sample: "C2", father: "D", mother: "M", sex: "2" },
+      { family: "FAM01", sample: "G1", father: "C1", mother: "W", sex: "1" },
+      { family: "FAM01", sample: "G2", father: "H", mother: "C2", sex: "2" },
+      { family: "FAM01", sample: "G3", father: "G1", mother: "G2", sex: "2" },
+    ];
+    const [fam] = layoutPedigree(ped);
+    const matings = fam.segments.filter((s) => s.kind == "mating");
+    expect(matings.map((s) => s.consanguineous)).to.eql([false, false, false, true]);
+    expect(matings[3].individuals).to.eql(["G1", "G2"]);
+  });
+  it("cycles are left unplaced", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", father: "SAM002", sex: "1" },
+      { family: "FAM01", sample: "SAM002", father: "SAM001", sex: "1" },
+      { family: "FAM01", sample: "SAM003", sex: "2" },
+    ];
+    const [fam] = layoutPedigree(ped);
+    expect(fam.nodes.map((n) => n.id)).to.eql(["SAM003"]);
+    expect(fam.unplaced).to.eql(["SAM001", "SAM002"]);
+  });
+});
@@ -0,0 +1,86 @@
+import { PedigreeEntry } from "../src/pedigree";
+import { checkMendelian, checkMendelianBatch } from "../src/mendel";
+
+import * as mocha from "mocha";
+import * as chai from "chai";
+
+const expect = chai.expect;
+
+const trio: PedigreeEntry[] = [
+  { family: "FAM01", sample: "KID", father: "DAD", mother: "MUM", sex: "1" },
+  { family: "FAM01", sample: "SIS", father: "DAD", mother: "MUM", sex: "2" },
+  { family: "FAM01", sample: "DAD", sex: "1" },
+  { family: "FAM01", sample: "MUM", sex: "2" },
+];
+
+describe("Mendelian consistency on autosomes.", () => {
+  it("consistent trio", () => {
+    const res = checkMendelian(trio, { KID: "0/1", SIS: "1|1", DAD: "0/1", MUM: "1/1" });
+    expect(res).to.eql({ ok: true, checked: 2, errors: [], implicated: {} });
+  });
+  it("missing calls are skipped", () => {
+    const res = checkMendelian(trio, { KID: "./.", SIS: "1/1", DAD: "0/0" });
+    expect(res.ok).to.be.false;
+    expect(res.checked).to.eql(1);
+    expect(res.errors.map((e) => e.kind)).to.eql(["father"]);
+  });
+  it("inconsistent with one parent", () => {
+    const res = checkMendelian(trio, { KID: "1/1", DAD: "0/1", MUM: "0/0" });
+    expect(res.errors).to.eql([
+      {
+        kind: "mother",
+        child: "KID",
+        father: "DAD",
+        mother: "MUM",
+        genotypes: { KID: "1/1", DAD: "0/1", MUM: "0/0" },
+        implicated: ["KID", "MUM"],
+        reason: "Child shares no allele with their mother.",
+      },
+    ]);
+    expect(res.implicated).to.eql({ KID: 1, MUM: 1 });
+  });
+  it("de novo candidate and trio inconsistency", () => {
+    const denovo = checkMendelian(trio, { KID: "0/1", DAD: "0/0", MUM: "0/0" });
+    expect(denovo.errors.map((e) => [e.kind, e.implicated])).to.eql([["denovo", ["KID"]]]);
+    const both = checkMendelian(trio, { KID: "0/0", DAD: "0/1", MUM: "1/1" });
+    expect(both.errors.map((e) => e.kind)).to.eql(["mother"]);
+    const joint = checkMendelian(trio, { KID: "0/0", DAD: "0/1", MUM: "0/1", SIS: "1/2" });
+    expect(joint.ok).to.be.false;
+    expect(joint.errors.map((e) => e.kind)).to.eql(["denovo"]);
+    const multi = checkMendelian(trio, { KID: "1/1", DAD: "1/2", MUM: "2/2" });
+    expect(multi.errors.map((e) => e.kind)).to.eql(["mother"]);
+    const strictTrio = checkMendelian(trio, { KID: "1/1", DAD: "0/1", MUM: "1/2", SIS: "0/2" });
+    expect(strictTrio.ok).to.be.true;
+  });
+});
+
+describe("Mendelian consistency on X.", () => {
+  it("sons inherit from their mothers", () => {
+    const res = checkMendelian(trio, { KID: "1", DAD: "0", MUM: "0/1" }, "X");
+    expect(res.ok).to.be.true;
+    const bad = checkMendelian(trio, { KID: "1/1", DAD: "1", MUM: "0/0" }, "X");
+    expect(bad.errors.map((e) => [e.kind, e.implicated])).to.eql([["mother", ["KID", "MUM"]]]);
+  });
+  it("daughters inherit their father's X", () => {
+    const res = checkMendelian(trio, { SIS: "0/0", DAD: "1/1", MUM: "0/1" }, "X");
+    expect(res.errors.map((e) => [e.kind, e.implicated])).to.eql([["father", ["SIS", "DAD"]]]);
+  });
+  it("heterozygous males", () => {
+    const res = checkMendelian(trio, { KID: "0/1", DAD: "0", MUM: "0/1" }, "X");
+    expect(res.checked).to.eql(0);
+    expect(res.errors.map((e) => [e.kind, e.implicated])).to.eql([["hemizygous", ["KID"]]]);
+  });
+});
+
+describe("Mendelian consistency over a batch of variants.", () => {
+  it("a swapped sample stands out", () => {
+    const res = checkMendelianBatch(trio, [
+      { id: "v1", chromosome: "autosomal", genotypes: { KID: "1/1", SIS: "0/1", DAD: "0/0", MUM: "0/1" } },
+      { id: "v2", chromosome: "autosomal", genotypes: { KID: "0/0", SIS: "0/1", DAD: "1/1", MUM: "0/1" } },
+      { id: "v3", chromosome: "X", genotypes: { KID: "0", SIS: "0/1", DAD: "1", MUM: "0/0" } },
+    ]);
+    expect(res.checked).to.eql(6);
+    expect(res.errors.map((e) => e.variant)).to.eql(["v1", "v2"]);
+    expect(res.implicated).to.eql({ KID: 2, DAD: 2 });
+  });
+});
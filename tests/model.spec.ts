@@ -0,0 +1,110 @@
+import { DefiniteIdentifier, PedigreeEntry } from "../src/pedigree";
+import { Pedigree } from "../src/model";
+import { plinkMissingIdentifiers } from "../src/normalize";
+
+import * as mocha from "mocha";
+import * as chai from "chai";
+
+const expect = chai.expect;
+
+// Three generations: S0 x S1 have S3, S4; S1 x S2 have S5;
+// S4 x S6 have S7; S7 is a leaf.
+//
+const ped: PedigreeEntry[] = [
+  { family: "FAM01", sample: "S0", mother: null, father: null, sex: "1" },
+  { family: "FAM01", sample: "S1", mother: null, father: null, sex: "2" },
+  { family: "FAM01", sample: "S3", mother: "S1", father: "S0", sex: "2" },
+  { family: "FAM01", sample: "S4", mother: "S1", father: "S0", sex: "1" },
+  { family: "FAM01", sample: "S5", mother: "S1", father: "S2", sex: "2" },
+  { family: "FAM01", sample: "S7", mother: "S6", father: "S4", sex: "1" },
+];
+
+function sorted(xs: Iterable<DefiniteIdentifier>): DefiniteIdentifier[] {
+  return [...xs].map(String).sort();
+}
+
+describe("Pedigree model.", () => {
+  const P = new Pedigree(ped);
+  it("individuals include implied parents", () => {
+    expect(P.individuals()).to.eql(["S0", "S1", "S3", "S4", "S5", "S2", "S7", "S6"]);
+    expect(P.has("S2")).to.be.true;
+    expect(P.entry("S2")).to.be.undefined;
+    expect(P.family("S2")).to.eql("FAM01");
+  });
+  it("parents and children", () => {
+    expect(P.father("S3")).to.eql("S0");
+    expect(P.mother("S3")).to.eql("S1");
+    expect(sorted(P.parents("S7"))).to.eql(["S4", "S6"]);
+    expect(P.parents("S0")).to.eql([]);
+    expect(sorted(P.children("S1"))).to.eql(["S3", "S4", "S5"]);
+  });
+  it("siblings", () => {
+    expect(sorted(P.siblings("S3"))).to.eql(["S4", "S5"]);
+    expect(P.siblings("S3", "full")).to.eql(["S4"]);
+    expect(P.siblings("S3", "half")).to.eql(["S5"]);
+    expect(P.siblings("S7")).to.eql([]);
+  });
+  it("ancestors and descendants", () => {
+    expect(sorted(P.ancestors("S7"))).to.eql(["S0", "S1", "S4", "S6"]);
+    expect(sorted(P.descendants("S1"))).to.eql(["S3", "S4", "S5", "S7"]);
+    expect(P.ancestors("S0").size).to.eql(0);
+  });
+  it("founders and leaves", () => {
+    expect(P.founders()).to.eql(["S0", "S1", "S2", "S6"]);
+    expect(P.leaves()).to.eql(["S3", "S5", "S7"]);
+  });
+  it("spouses and mating pairs", () => {
+    expect(sorted(P.spouses("S1"))).to.eql(["S0", "S2"]);
+    expect(P.spouses("S3")).to.eql([]);
+    expect(P.matingPairs()).to.eql([
+      ["S0", "S1"],
+      ["S2", "S1"],
+      ["S4", "S6"],
+    ]);
+  });
+  it("generations", () => {
+    expect(P.generation("S0")).to.eql(0);
+    expect(P.generation("S6")).to.eql(0);
+    expect(P.generation("S4")).to.eql(1);
+    expect(P.generation("S7")).to.eql(2);
+    const order = P.topologicalOrder();
+    expect(order.length).to.eql(8);
+    expect(order.indexOf("S4")).to.be.lessThan(order.indexOf("S7"));
+  });
+  it("cycles have no generation", () => {
+    const Q = new Pedigree([
+      { family: "FAM01", sample: "S1", father: "S2", sex: "1" },
+      { family: "FAM01", sample: "S2", father: "S1", sex: "1" },
+      { family: "FAM01", sample: "S3", father: "S2", sex: "1" },
+    ]);
+    expect(Q.generation("S1")).to.be.undefined;
+    expect(Q.generation("S3")).to.be.undefined;
+    expect(Q.topologicalOrder()).to.eql([]);
+    expect(sorted(Q.ancestors("S1"))).to.eql(["S2"]);
+  });
+  it("numeric and string identifiers are different individuals", () => {
+    const Q = new Pedigree([
+      { family: 1, sample: 1, father: null, mother: null, sex: "1" },
+      { family: 1, sample: "1", father: 1, mother: null, sex: "1" },
+    ]);
+    expect(Q.individuals()).to.eql([1, "1"]);
+    expect(Q.parents("1")).to.eql([1]);
+    expect(Q.parents(1)).to.eql([]);
+    expect(Q.entry("1").father).to.eql(1);
+    expect(Q.family("1")).to.equal(1);
+    expect(Q.generation("1")).to.eql(1);
+    expect(Q.components()).to.eql([[1, "1"]]);
+  });
+  it("missing parents from the normalization options", () => {
+    const plink: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", father: "0", mother: "SAM002", sex: "1" },
+      { family: "FAM01", sample: "SAM002", father: "-9", mother: "0", sex: "2" },
+    ];
+    const Q = new Pedigree(plink, { missing: plinkMissingIdentifiers });
+    expect(Q.individuals()).to.eql(["SAM001", "SAM002"]);
+    expect(Q.father("SAM001")).to.be.null;
+    expect(Q.parents("SAM001")).to.eql(["SAM002"]);
+    expect(Q.known("0")).to.be.false;
+    expect(new Pedigree(plink).individuals()).to.eql(["SAM001", "0", "SAM002", "-9"]);
+  });
+});
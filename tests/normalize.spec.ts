@@ -0,0 +1,80 @@
+import { PedigreeEntry } from "../src/pedigree";
+import {
+  normalizeSex,
+  normalizeAffected,
+  normalizePedigree,
+  plinkSexEncoding,
+  plinkMissingIdentifiers,
+  isMissingIdentifier,
+  looksMissing,
+  normalizeDate,
+} from "../src/normalize";
+
+import * as mocha from "mocha";
+import * as chai from "chai";
+
+const expect = chai.expect;
+
+describe("Normalise values.", () => {
+  it("sex", () => {
+    expect([1, "1", "Male", "male", " MALE "].map((x) => normalizeSex(x))).to.eql(["Male", "Male", "Male", "Male", "Male"]);
+    expect([2, "2", "Female", "FEMALE"].map((x) => normalizeSex(x))).to.eql(["Female", "Female", "Female", "Female"]);
+    expect([0, -1, "0", null, undefined].map((x) => normalizeSex(x))).to.eql([null, null, null, null, null]);
+    expect(normalizeSex("M")).to.be.undefined;
+    expect(normalizeSex("constructor")).to.be.undefined;
+    expect(["M", "f", "other", -9].map((x) => normalizeSex(x, plinkSexEncoding))).to.eql(["Male", "Female", null, null]);
+    expect(normalizeSex("X", { x: "Female" })).to.eql("Female");
+  });
+  it("affection status", () => {
+    expect([2, "2", "affected", "Affected"].map(normalizeAffected)).to.eql(["Affected", "Affected", "Affected", "Affected"]);
+    expect([1, "1", "unaffected", "Unaffected"].map(normalizeAffected)).to.eql([
+      "Unaffected",
+      "Unaffected",
+      "Unaffected",
+      "Unaffected",
+    ]);
+    expect([0, "-9", null, undefined].map(normalizeAffected)).to.eql([null, null, null, null]);
+  });
+  it("missing identifiers", () => {
+    expect([null, undefined, 0, ""].map((x) => isMissingIdentifier(x))).to.eql([true, true, true, true]);
+    expect(isMissingIdentifier("0")).to.be.false;
+    expect(isMissingIdentifier("0", plinkMissingIdentifiers)).to.be.true;
+    expect(["0", -9, " na ", "."].map(looksMissing)).to.eql([true, true, true, true]);
+    expect(looksMissing("SAM001")).to.be.false;
+  });
+});
+
+describe("Normalise dates.", () => {
+  it("years, months and days", () => {
+    expect(normalizeDate(1970)).to.eql({ earliest: 0, latest: 364 });
+    expect(normalizeDate("1970")).to.eql({ earliest: 0, latest: 364 });
+    expect(normalizeDate("1970-02")).to.eql({ earliest: 31, latest: 58 });
+    expect(normalizeDate("1972-02")).to.eql({ earliest: 761, latest: 789 });
+    expect(normalizeDate("1970-01-02")).to.eql({ earliest: 1, latest: 1 });
+    expect(normalizeDate("1969-12-31")).to.eql({ earliest: -1, latest: -1 });
+  });
+  it("missing and unrecognised dates", () => {
+    expect(normalizeDate(null)).to.be.null;
+    expect(normalizeDate(undefined)).to.be.null;
+    expect(normalizeDate(1970.5)).to.be.undefined;
+    expect(normalizeDate("1 JAN 1970")).to.be.undefined;
+    expect(normalizeDate("1970-13")).to.be.undefined;
+    expect(normalizeDate("1970-02-30")).to.be.undefined;
+  });
+});
+
+describe("Normalise pedigrees.", () => {
+  it("returns new canonical entries", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", mother: "SAM002", father: "0", sex: "m", affected: 2 },
+      { family: "FAM01", sample: "SAM002", sex: "Q" },
+    ];
+    const res = normalizePedigree(ped, { sex: plinkSexEncoding, missing: plinkMissingIdentifiers });
+    expect(res).to.eql([
+      { family: "FAM01", sample: "SAM001", mother: "SAM002", father: null, sex: "Male", affected: "Affected" },
+      { family: "FAM01", sample: "SAM002", mother: null, father: null, sex: "Q" },
+    ]);
+    expect(ped[0].sex).to.eql("m");
+    expect(ped[0].father).to.eql("0");
+  });
+});
@@ -0,0 +1,145 @@
+import { DefiniteIdentifier, PedigreeValidationResult } from "../src/pedigree";
+import { parsePed, formatPed, problemLines } from "../src/ped";
+import { normalizePedigree, plinkSexEncoding } from "../src/normalize";
+
+import * as mocha from "mocha";
+import * as chai from "chai";
+
+const expect = chai.expect;
+
+describe("Parse PED/FAM files.", () => {
+  it("simple trio", () => {
+    const text = ["FAM01 SAM001 SAM003 SAM002 1 2", "FAM01 SAM002 0 0 2 1", "FAM01 SAM003 0 0 1 1", ""].join("\n");
+    const res = parsePed(text);
+    expect(res.ok).to.be.true;
+    expect(res.errors.length).to.eql(0);
+    expect(res.entries).to.eql([
+      { family: "FAM01", sample: "SAM001", father: "SAM003", mother: "SAM002", sex: "Male", affected: "Affected" },
+      { family: "FAM01", sample: "SAM002", father: null, mother: null, sex: "Female", affected: "Unaffected" },
+      { family: "FAM01", sample: "SAM003", father: null, mother: null, sex: "Male", affected: "Unaffected" },
+    ]);
+    expect(res.records.map((rec) => rec.line)).to.eql([1, 2, 3]);
+    expect(res.records.map((rec) => rec.phenotype)).to.eql(["2", "1", "1"]);
+  });
+  it("comments, header, tabs and missing values", () => {
+    const text = [
+      "# a comment",
+      "FID\tIID\tPAT\tMAT\tSEX\tPHENOTYPE",
+      "FAM01\tSAM 001\t-9\t0\t0\t-9",
+      "",
+      "FAM01\tSAM002\t0\t0\t2",
+    ].join("\r\n");
+    const res = parsePed(text, { delimiter: "tab" });
+    expect(res.ok).to.be.true;
+    expect(res.entries).to.eql([
+      { family: "FAM01", sample: "SAM 001", father: null, mother: null, sex: null },
+      { family: "FAM01", sample: "SAM002", father: null, mother: null, sex: "Female" },
+    ]);
+    expect(res.records.map((rec) => rec.line)).to.eql([3, 5]);
+    expect(res.records.map((rec) => rec.phenotype)).to.eql([null, null]);
+  });
+  it("genotype columns are ignored", () => {
+    const res = parsePed("FAM01 SAM001 0 0 1 2 A A G T\n");
+    expect(res.ok).to.be.true;
+    expect(res.entries).to.eql([
+      { family: "FAM01", sample: "SAM001", father: null, mother: null, sex: "Male", affected: "Affected" },
+    ]);
+  });
+  it("quantitative phenotypes", () => {
+    const text = ["FAM01 SAM001 0 0 1 3.25", "FAM01 SAM002 0 0 1 -9", "FAM01 SAM003 0 0 1 tall"].join("\n");
+    const res = parsePed(text, { phenotype: "quantitative", phenotypeName: "height" });
+    expect(res.entries).to.eql([
+      { family: "FAM01", sample: "SAM001", father: null, mother: null, sex: "Male", phenotypes: { height: 3.25 } },
+      { family: "FAM01", sample: "SAM002", father: null, mother: null, sex: "Male" },
+    ]);
+    expect(res.errors).to.eql([{ line: 3, message: 'Unrecognised phenotype value "tall".', text: "FAM01 SAM003 0 0 1 tall" }]);
+    expect(parsePed("FAM01 SAM003 0 0 1 3", { phenotype: "affection" }).errors[0].message).to.eql(
+      'Unrecognised affection status "3".'
+    );
+  });
+  it("quantitative phenotypes are detected, as PLINK does", () => {
+    const text = ["FAM01 SAM001 0 0 1 2", "FAM01 SAM002 0 0 1 3.25", "FAM01 SAM003 0 0 1 -9"].join("\n");
+    const res = parsePed(text);
+    expect(res.ok).to.be.true;
+    expect(res.entries).to.eql([
+      { family: "FAM01", sample: "SAM001", father: null, mother: null, sex: "Male", phenotypes: { phenotype: 2 } },
+      { family: "FAM01", sample: "SAM002", father: null, mother: null, sex: "Male", phenotypes: { phenotype: 3.25 } },
+      { family: "FAM01", sample: "SAM003", father: null, mother: null, sex: "Male" },
+    ]);
+    expect(res.records.map((rec) => rec.phenotype)).to.eql(["2", "3.25", null]);
+  });
+  it("bad rows are reported with line numbers", () => {
+    const text = ["FAM01 SAM001 0 0 1 2", "FAM01 SAM002 0 0", "FAM01 SAM003 0 0 M 1"].join("\n");
+    const res = parsePed(text);
+    expect(res.ok).to.be.false;
+    expect(res.entries.length).to.eql(1);
+    expect(res.errors).to.eql([
+      { line: 2, message: "Expected at least 5 columns, but found 4.", text: "FAM01 SAM002 0 0" },
+      { line: 3, message: 'Unrecognised sex "M".', text: "FAM01 SAM003 0 0 M 1" },
+    ]);
+  });
+});
+
+describe("Format PED/FAM files.", () => {
+  it("round trip", () => {
+    const text = ["FAM01\tSAM001\tSAM003\tSAM002\t1\t2", "FAM01\tSAM002\t0\t0\t2\t1", "FAM01\tSAM003\t0\t0\t0\t-9", ""].join("\n");
+    const res = parsePed(text);
+    const phenotypes: { [who: DefiniteIdentifier]: string } = {};
+    for (const rec of res.records) {
+      if (rec.phenotype !== null) {
+        phenotypes[rec.entry.sample] = rec.phenotype;
+      }
+    }
+    expect(formatPed(res.entries, phenotypes)).to.eql(text);
+    expect(parsePed(formatPed(res.entries)).entries).to.eql(res.entries);
+  });
+  it("mixed sex encodings", () => {
+    const text = formatPed(
+      [
+        { family: 1, sample: 2, mother: 3, sex: 1 },
+        { family: 1, sample: 3, sex: "2" },
+      ],
+      {},
+      { delimiter: " " }
+    );
+    expect(text).to.eql("1 2 0 3 1 -9\n1 3 0 0 2 -9\n");
+  });
+  it("round trip with PLINK sex codes", () => {
+    const ped = [
+      { family: "FAM01", sample: "SAM001", father: "SAM002", mother: "SAM003", sex: "M" },
+      { family: "FAM01", sample: "SAM002", sex: "m" },
+      { family: "FAM01", sample: "SAM003", sex: "f" },
+    ];
+    const text = formatPed(ped, {}, {}, { sex: plinkSexEncoding });
+    expect(text).to.eql("FAM01\tSAM001\tSAM002\tSAM003\t1\t-9\nFAM01\tSAM002\t0\t0\t1\t-9\nFAM01\tSAM003\t0\t0\t2\t-9\n");
+    expect(parsePed(text).entries.map((row) => row.sex)).to.eql(
+      normalizePedigree(ped, { sex: plinkSexEncoding }).map((row) => row.sex)
+    );
+  });
+  it("affection status", () => {
+    const text = formatPed([
+      { family: 1, sample: 2, mother: 3, sex: 1, affected: 2 },
+      { family: 1, sample: 3, sex: "2", affected: "unaffected" },
+      { family: 1, sample: 4, sex: "2", affected: null },
+    ]);
+    expect(text).to.eql("1\t2\t0\t3\t1\t2\n1\t3\t0\t0\t2\t1\n1\t4\t0\t0\t2\t-9\n");
+  });
+});
+
+describe("Map validation problems to lines.", () => {
+  it("problematic mother", () => {
+    const text = ["FAM01 SAM001 SAM003 SAM002 1 2", "FAM01 SAM002 0 0 1 1", "FAM01 SAM003 0 0 1 1"].join("\n");
+    const res = parsePed(text);
+    const validation: PedigreeValidationResult = {
+      ok: false,
+      reasons: ["There is at least one sample that occurs as a mother but is not female."],
+      problematic: new Set<DefiniteIdentifier>(["SAM002"]),
+      whys: { SAM002: ["Person is not female, but occurs as a mother."] },
+      issues: [],
+    };
+    expect(problemLines(res.records, validation)).to.eql({
+      1: ["SAM002: Person is not female, but occurs as a mother."],
+      2: ["SAM002: Person is not female, but occurs as a mother."],
+    });
+  });
+});
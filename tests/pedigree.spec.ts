@@ -5,7 +5,14 @@ import {
   permissive,
   validatePedigree,
   PedigreeValidationOptions,
+  TwinAnnotation,
+  ValidationRule,
+  defaultAgeLimits,
+  registerValidationRule,
+  unregisterValidationRule,
+  validationRules,
 } from "../src/pedigree";
+import { plinkMissingIdentifiers, plinkSexEncoding } from "../src/normalize";
 
 import * as mocha from "mocha";
 import * as chai from "chai";
@@ -49,6 +56,19 @@ describe("Pedigrees with multiple families.", () => {
       reasons: ["The pedigree contains multiple families."],
       problematic: new Set<DefiniteIdentifier>(),
       whys: {},
+      issues: [
+        {
+          code: "multipleFamilies.families",
+          check: "multipleFamilies",
+          severity: "error",
+          message: "The pedigree contains multiple families.",
+          detail: null,
+          family: null,
+          individuals: [],
+          rows: [],
+          related: [],
+        },
+      ],
     });
   });
   it("individual shared between two families", () => {
@@ -67,6 +87,30 @@ describe("Pedigrees with multiple families.", () => {
       whys: {
         SAM003: ["Individual belongs to more than one family."],
       },
+      issues: [
+        {
+          code: "multipleFamilies.families",
+          check: "multipleFamilies",
+          severity: "error",
+          message: "The pedigree contains multiple families.",
+          detail: null,
+          family: null,
+          individuals: [],
+          rows: [],
+          related: [],
+        },
+        {
+          code: "oneFamily.shared",
+          check: "oneFamily",
+          severity: "error",
+          message: "The pedigree contains individuals who belong to more than one family.",
+          detail: "Individual belongs to more than one family.",
+          family: null,
+          individuals: ["SAM003"],
+          rows: [0, 1],
+          related: [],
+        },
+      ],
     });
   });
 });
@@ -146,6 +190,19 @@ describe("assorted corner cases", () => {
       reasons: ["An empty pedigree is not permitted."],
       problematic: new Set<DefiniteIdentifier>(),
       whys: {},
+      issues: [
+        {
+          code: "empty.pedigree",
+          check: "empty",
+          severity: "error",
+          message: "An empty pedigree is not permitted.",
+          detail: null,
+          family: null,
+          individuals: [],
+          rows: [],
+          related: [],
+        },
+      ],
     });
   });
   it("singleton with unknown sex", () => {
@@ -187,6 +244,19 @@ describe("assorted corner cases", () => {
       reasons: ["Pedigree contains duplicate rows for at least one individual."],
       problematic: new Set<DefiniteIdentifier>(["SAM001"]),
       whys: { SAM001: ["Person is defined in more than one line of the pedigree."] },
+      issues: [
+        {
+          code: "duplicates.sample",
+          check: "duplicates",
+          severity: "error",
+          message: "Pedigree contains duplicate rows for at least one individual.",
+          detail: "Person is defined in more than one line of the pedigree.",
+          family: "FAM01",
+          individuals: ["SAM001"],
+          rows: [0, 1],
+          related: [],
+        },
+      ],
     });
   });
   it("parent as both father and mother", () => {
@@ -205,6 +275,19 @@ describe("assorted corner cases", () => {
       reasons: ["There is at least one sample used as both father and mother."],
       problematic: new Set<DefiniteIdentifier>(["SAM002"]),
       whys: { SAM002: ["Person is used as both a mother and a father."] },
+      issues: [
+        {
+          code: "duplicates.bothParents",
+          check: "duplicates",
+          severity: "error",
+          message: "There is at least one sample used as both father and mother.",
+          detail: "Person is used as both a mother and a father.",
+          family: "FAM01",
+          individuals: ["SAM002"],
+          rows: [0],
+          related: ["SAM001"],
+        },
+      ],
     });
   });
   it("parent as both father and mother", () => {
@@ -240,6 +323,30 @@ describe("assorted corner cases", () => {
       ],
       problematic: new Set<DefiniteIdentifier>(["SAM002", "SAM003"]),
       whys: { SAM002: ["Person is not female, but occurs as a mother."], SAM003: ["Person is not male, but occurs as a father."] },
+      issues: [
+        {
+          code: "inconsistentSex.mother",
+          check: "inconsistentSex",
+          severity: "error",
+          message: "There is at least one sample that occurs as a mother but is not female.",
+          detail: "Person is not female, but occurs as a mother.",
+          family: "FAM01",
+          individuals: ["SAM002"],
+          rows: [1],
+          related: ["SAM001"],
+        },
+        {
+          code: "inconsistentSex.father",
+          check: "inconsistentSex",
+          severity: "error",
+          message: "There is at least one sample that occurs as a father but is not male.",
+          detail: "Person is not male, but occurs as a father.",
+          family: "FAM01",
+          individuals: ["SAM003"],
+          rows: [2],
+          related: ["SAM001"],
+        },
+      ],
     });
   });
 });
@@ -310,6 +417,85 @@ describe("Validation on some randomly generated pedigrees", () => {
         S7: ["Individual is not properly connected to pedigree."],
         S10: ["Individual is not properly connected to pedigree."],
       },
+      issues: [
+        {
+          code: "fullyConnected.unconnected",
+          check: "fullyConnected",
+          severity: "error",
+          message: "At least one individual is not properly connected to family.",
+          detail: "Individual is not properly connected to pedigree.",
+          family: "FAM01",
+          individuals: ["S1"],
+          rows: [1],
+          related: [],
+        },
+        {
+          code: "fullyConnected.unconnected",
+          check: "fullyConnected",
+          severity: "error",
+          message: "At least one individual is not properly connected to family.",
+          detail: "Individual is not properly connected to pedigree.",
+          family: "FAM01",
+          individuals: ["S2"],
+          rows: [2],
+          related: [],
+        },
+        {
+          code: "fullyConnected.unconnected",
+          check: "fullyConnected",
+          severity: "error",
+          message: "At least one individual is not properly connected to family.",
+          detail: "Individual is not properly connected to pedigree.",
+          family: "FAM01",
+          individuals: ["S4"],
+          rows: [4],
+          related: [],
+        },
+        {
+          code: "fullyConnected.unconnected",
+          check: "fullyConnected",
+          severity: "error",
+          message: "At least one individual is not properly connected to family.",
+          detail: "Individual is not properly connected to pedigree.",
+          family: "FAM01",
+          individuals: ["S7"],
+          rows: [7],
+          related: [],
+        },
+        {
+          code: "fullyConnected.unconnected",
+          check: "fullyConnected",
+          severity: "error",
+          message: "At least one individual is not properly connected to family.",
+          detail: "Individual is not properly connected to pedigree.",
+          family: "FAM01",
+          individuals: ["S8"],
+          rows: [8],
+          related: [],
+        },
+        {
+          code: "fullyConnected.unconnected",
+          check: "fullyConnected",
+          severity: "error",
+          message: "At least one individual is not properly connected to family.",
+          detail: "Individual is not properly connected to pedigree.",
+          family: "FAM01",
+          individuals: ["S10"],
+          rows: [10],
+          related: [],
+        },
+        {
+          code: "fullyConnected.unconnected",
+          check: "fullyConnected",
+          severity: "error",
+          message: "At least one individual is not properly connected to family.",
+          detail: "Individual is not properly connected to pedigree.",
+          family: "FAM01",
+          individuals: ["S11"],
+          rows: [11],
+          related: [],
+        },
+      ],
     });
   });
 });
@@ -349,6 +535,30 @@ describe("test cases from UI testing", () => {
         subj_2_sample_22: ["Individual is not properly connected to pedigree."],
         subject_31_sample_32: ["Individual is not properly connected to pedigree."],
       },
+      issues: [
+        {
+          code: "fullyConnected.unconnected",
+          check: "fullyConnected",
+          severity: "warning",
+          message: "At least one individual is not properly connected to family.",
+          detail: "Individual is not properly connected to pedigree.",
+          family: "subj_2_family",
+          individuals: ["subj_2_sample_22"],
+          rows: [1],
+          related: [],
+        },
+        {
+          code: "fullyConnected.unconnected",
+          check: "fullyConnected",
+          severity: "warning",
+          message: "At least one individual is not properly connected to family.",
+          detail: "Individual is not properly connected to pedigree.",
+          family: "subj_31_family",
+          individuals: ["subject_31_sample_32"],
+          rows: [5],
+          related: [],
+        },
+      ],
     });
   });
   it("test 2", () => {
@@ -382,6 +592,494 @@ describe("test cases from UI testing", () => {
       reasons: ["There was at least one instance of someone being their own ancestor."],
       problematic: new Set<DefiniteIdentifier>(["subject_31_sample_31"]),
       whys: { subject_31_sample_31: ["Sample is an ancestor of itself."] },
+      issues: [
+        {
+          code: "cycles.ancestor",
+          check: "cycles",
+          severity: "error",
+          message: "There was at least one instance of someone being their own ancestor.",
+          detail: "Sample is an ancestor of itself.",
+          family: "subj_31_family",
+          individuals: ["subject_31_sample_31"],
+          rows: [4],
+          related: [],
+        },
+      ],
+    });
+  });
+});
+
+describe("affection status and phenotypes", () => {
+  it("affected proband (good)", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", mother: "SAM002", father: "SAM003", sex: "1", affected: 2, proband: true },
+      { family: "FAM01", sample: "SAM002", sex: "2", affected: "1" },
+      { family: "FAM01", sample: "SAM003", sex: "1", affected: -9, hpo: ["HP:0001250"] },
+    ];
+    const res = validatePedigree(ped, { ...strict, noAffected: "error" });
+    expect(res.ok).to.be.true;
+    expect(res.reasons.length).to.eql(0);
+    expect(ped.map((row) => row.affected)).to.eql([2, "1", -9]);
+  });
+  it("unaffected proband", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", mother: "SAM002", father: "SAM003", sex: "1", affected: "unaffected", proband: true },
+    ];
+    const res = validatePedigree(ped);
+    expect(res).to.eql({
+      ok: false,
+      reasons: ["There is at least one proband who is unaffected."],
+      problematic: new Set<DefiniteIdentifier>(["SAM001"]),
+      whys: { SAM001: ["Person is a proband, but is unaffected."] },
+      issues: [
+        {
+          code: "unaffectedProband.proband",
+          check: "unaffectedProband",
+          severity: "error",
+          message: "There is at least one proband who is unaffected.",
+          detail: "Person is a proband, but is unaffected.",
+          family: "FAM01",
+          individuals: ["SAM001"],
+          rows: [0],
+          related: [],
+        },
+      ],
+    });
+  });
+  it("no affected individuals", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", sex: "1", affected: "Affected" },
+      { family: "FAM02", sample: "SAM002", sex: "1", affected: 1 },
+    ];
+    const res = validatePedigree(ped, { ...permissive, noAffected: "warning" });
+    expect(res).to.eql({
+      ok: true,
+      reasons: ["There is at least one family with no affected individuals."],
+      problematic: new Set<DefiniteIdentifier>(),
+      whys: {},
+      issues: [
+        {
+          code: "noAffected.family",
+          check: "noAffected",
+          severity: "warning",
+          message: "There is at least one family with no affected individuals.",
+          detail: null,
+          family: "FAM02",
+          individuals: [],
+          rows: [1],
+          related: [],
+        },
+      ],
+    });
+  });
+  it("malformed HPO terms", () => {
+    const ped: PedigreeEntry[] = [{ family: "FAM01", sample: "SAM001", sex: "1", hpo: ["HP:0001250", "HP:12"] }];
+    const res = validatePedigree(ped);
+    expect(res).to.eql({
+      ok: false,
+      reasons: ["There is at least one malformed HPO term."],
+      problematic: new Set<DefiniteIdentifier>(["SAM001"]),
+      whys: { SAM001: ["Person has an HPO term that is not of the form HP:0000000."] },
+      issues: [
+        {
+          code: "malformedHpo.term",
+          check: "malformedHpo",
+          severity: "error",
+          message: "There is at least one malformed HPO term.",
+          detail: "Person has an HPO term that is not of the form HP:0000000.",
+          family: "FAM01",
+          individuals: ["SAM001"],
+          rows: [0],
+          related: [],
+        },
+      ],
+    });
+  });
+});
+
+describe("missing identifiers", () => {
+  it("PLINK style missing parents are individuals by default", () => {
+    const ped: PedigreeEntry[] = [{ family: "FAM01", sample: "SAM001", mother: "0", father: "0", sex: "1" }];
+    const res = validatePedigree(ped);
+    expect(res.ok).to.be.false;
+    expect(res.reasons).to.eql([
+      "There is at least one identifier that looks like a missing value, but is treated as an individual.",
+      "There is at least one sample used as both father and mother.",
+    ]);
+    expect(res.whys).to.eql({ "0": ["Identifier looks like a missing value.", "Person is used as both a mother and a father."] });
+    expect(res.issues[0]).to.eql({
+      code: "undeclaredMissing.identifier",
+      check: "undeclaredMissing",
+      severity: "warning",
+      message: "There is at least one identifier that looks like a missing value, but is treated as an individual.",
+      detail: "Identifier looks like a missing value.",
+      family: "FAM01",
+      individuals: ["0"],
+      rows: [0],
+      related: [],
+    });
+  });
+  it("PLINK style missing parents", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", mother: "SAM002", father: "-9", sex: "1" },
+      { family: "FAM01", sample: "SAM002", mother: "0", father: "0", sex: "2" },
+    ];
+    const res = validatePedigree(ped, strict, { missing: plinkMissingIdentifiers });
+    expect(res).to.eql({ ok: true, reasons: [], problematic: new Set<DefiniteIdentifier>(), whys: {}, issues: [] });
+  });
+  it("numeric zero is missing", () => {
+    const ped: PedigreeEntry[] = [{ family: 1, sample: 1, mother: 0, father: 0, sex: 1 }];
+    const res = validatePedigree(ped);
+    expect(res.ok).to.be.true;
+    expect(res.reasons).to.eql([]);
+  });
+  it("numeric and string identifiers are different individuals", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: 1, mother: null, father: "1", sex: 1 },
+      { family: "FAM01", sample: "1", mother: null, father: null, sex: 1 },
+      { family: "FAM02", sample: "2", mother: null, father: null, sex: 1 },
+      { family: 2, sample: 2, mother: null, father: null, sex: 1 },
+    ];
+    const res = validatePedigree(ped, { ...strict, multipleFamilies: "ignore" });
+    expect(res.ok).to.be.true;
+    expect(res.issues).to.eql([]);
+  });
+  it("identifiers keep their types in issues", () => {
+    const ped: PedigreeEntry[] = [
+      { family: 7, sample: 1, mother: null, father: null, sex: 1 },
+      { family: 7, sample: 2, mother: null, father: null, sex: 2 },
+    ];
+    const res = validatePedigree(ped);
+    expect([...res.problematic]).to.eql([2]);
+    expect(res.issues.map((i) => [i.code, i.family, i.individuals])).to.eql([["fullyConnected.unconnected", 7, [2]]]);
+  });
+  it("missing sample identifier", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", sex: "1" },
+      { family: "FAM01", sample: "", father: "SAM001", sex: "1" },
+    ];
+    const res = validatePedigree(ped);
+    expect(res.ok).to.be.false;
+    expect(res.reasons).to.eql(["There is at least one row with a missing sample identifier."]);
+    expect(res.issues.map((issue) => [issue.code, issue.rows])).to.eql([["missingSample.sample", [1]]]);
+  });
+});
+
+describe("normalisation", () => {
+  it("validation does not modify the pedigree", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", mother: "SAM002", father: "SAM003", sex: 1 },
+      { family: "FAM01", sample: "SAM002", sex: "2" },
+      { family: "FAM01", sample: "SAM003", sex: "1" },
+    ];
+    const copy = JSON.parse(JSON.stringify(ped));
+    const res = validatePedigree(ped);
+    expect(res.ok).to.be.true;
+    expect(ped).to.eql(copy);
+  });
+  it("unrecognised sex", () => {
+    const ped: PedigreeEntry[] = [{ family: "FAM01", sample: "SAM001", sex: "M" }];
+    const res = validatePedigree(ped);
+    expect(res).to.eql({
+      ok: false,
+      reasons: ["There is at least one sample whose sex is not recognised."],
+      problematic: new Set<DefiniteIdentifier>(["SAM001"]),
+      whys: { SAM001: ["Person's sex is not recognised."] },
+      issues: [
+        {
+          code: "unrecognisedSex.sex",
+          check: "unrecognisedSex",
+          severity: "error",
+          message: "There is at least one sample whose sex is not recognised.",
+          detail: "Person's sex is not recognised.",
+          family: "FAM01",
+          individuals: ["SAM001"],
+          rows: [0],
+          related: [],
+        },
+      ],
+    });
+  });
+  it("custom sex encoding", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", mother: "SAM002", father: "SAM003", sex: "other" },
+      { family: "FAM01", sample: "SAM002", sex: "F" },
+      { family: "FAM01", sample: "SAM003", sex: " m " },
+    ];
+    const res = validatePedigree(ped, strict, { sex: plinkSexEncoding });
+    expect(res.ok).to.be.true;
+    expect(res.reasons).to.eql([]);
+  });
+});
+
+describe("twins", () => {
+  const mz: TwinAnnotation = { group: "T1", zygosity: "monozygotic" };
+  const dz: TwinAnnotation = { group: "T1", zygosity: "dizygotic" };
+  const twin: TwinAnnotation = { group: "T1", zygosity: "unknown" };
+  it("twins (good)", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", mother: "SAM002", father: "SAM003", sex: "1", twin: mz },
+      { family: "FAM01", sample: "SAM004", mother: "SAM002", father: "SAM003", sex: "1", twin: mz },
+      { family: "FAM01", sample: "SAM005", mother: "SAM002", father: "SAM003", sex: "2", twin: dz },
+      { family: "FAM01", sample: "SAM002", sex: "2" },
+      { family: "FAM01", sample: "SAM003", sex: "1" },
+    ];
+    const res = validatePedigree(ped);
+    expect(res.ok).to.be.true;
+    expect(res.reasons).to.eql([]);
+  });
+  it("twins with different parents and sex", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", mother: "SAM002", father: "SAM003", sex: "1", twin: mz },
+      { family: "FAM01", sample: "SAM004", mother: "SAM002", sex: "2", twin: mz },
+    ];
+    const res = validatePedigree(ped);
+    expect(res.ok).to.be.false;
+    expect(res.reasons).to.eql([
+      "There is at least one set of twins who do not share both parents.",
+      "There is at least one set of monozygotic twins who are not the same sex.",
+    ]);
+    expect(res.whys).to.eql({
+      SAM001: [
+        "Twin does not have the same known father and mother as their co-twins.",
+        "Monozygotic twin is not the same sex as their co-twins.",
+      ],
+      SAM004: [
+        "Twin does not have the same known father and mother as their co-twins.",
+        "Monozygotic twin is not the same sex as their co-twins.",
+      ],
+    });
+    expect(res.issues.map((i) => [i.code, i.individuals, i.related])).to.eql([
+      ["twinParents.parents", ["SAM001"], ["SAM004"]],
+      ["twinParents.parents", ["SAM004"], ["SAM001"]],
+      ["twinSex.sex", ["SAM001"], ["SAM004"]],
+      ["twinSex.sex", ["SAM004"], ["SAM001"]],
+    ]);
+  });
+  it("twins in different families", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", mother: "SAM002", father: "SAM003", sex: "1", twin },
+      { family: "FAM02", sample: "SAM004", mother: "SAM002", father: "SAM003", sex: "1", twin },
+    ];
+    const res = validatePedigree(ped, { ...permissive, oneFamily: "ignore" });
+    expect(res.ok).to.be.true;
+    expect(res.issues).to.eql([
+      {
+        code: "twinFamily.family",
+        check: "twinFamily",
+        severity: "warning",
+        message: "There is at least one set of twins who are not in the same family.",
+        detail: "Twin is not in the same family as their co-twins.",
+        family: "FAM01",
+        individuals: ["SAM001"],
+        rows: [0],
+        related: ["SAM004"],
+      },
+      {
+        code: "twinFamily.family",
+        check: "twinFamily",
+        severity: "warning",
+        message: "There is at least one set of twins who are not in the same family.",
+        detail: "Twin is not in the same family as their co-twins.",
+        family: "FAM02",
+        individuals: ["SAM004"],
+        rows: [1],
+        related: ["SAM001"],
+      },
+    ]);
+  });
+});
+
+describe("dates", () => {
+  const family = "FAM01";
+  const options: PedigreeValidationOptions = { ...strict, fullyConnected: "ignore" };
+  const codes = (ped: PedigreeEntry[], ages = {}) =>
+    validatePedigree(ped, options, {}, ages).issues.map((i) => [i.code, i.individuals, i.related]);
+
+  it("plausible dates (good)", () => {
+    const ped: PedigreeEntry[] = [
+      { family, sample: "SAM001", father: null, mother: null, sex: "1", birth: 1950, death: "1999-05-01", deceased: true },
+      { family, sample: "SAM002", father: null, mother: null, sex: "2", birth: "1952-03-04" },
+      { family, sample: "SAM003", father: "SAM001", mother: "SAM002", sex: "1", birth: "1980-01-01" },
+      { family, sample: "SAM004", father: "SAM001", mother: "SAM002", sex: "2", birth: "1980-01-02" },
+      { family, sample: "SAM005", father: "SAM001", mother: "SAM002", sex: "2", birth: "1980-09" },
+      { family, sample: "SAM006", father: "SAM001", mother: "SAM002", sex: "2", birth: "2000-02-01" },
+    ];
+    const res = validatePedigree(ped);
+    expect(res.ok).to.be.true;
+    expect(res.issues).to.eql([]);
+  });
+  it("malformed dates and vital status", () => {
+    const ped: PedigreeEntry[] = [
+      { family, sample: "SAM001", sex: "1", birth: "1 JAN 1950", death: "1949", deceased: false },
+      { family, sample: "SAM002", sex: "2", birth: 1950, death: 1949 },
+    ];
+    const res = validatePedigree(ped, options);
+    expect(res.ok).to.be.false;
+    expect(res.reasons).to.eql([
+      "There is at least one date that is not a year or a date of the form YYYY-MM-DD.",
+      "There is at least one individual whose date of death is inconsistent with their birth or vital status.",
+    ]);
+    expect(res.issues.map((i) => [i.code, i.individuals, i.detail])).to.eql([
+      ["malformedDate.birth", ["SAM001"], "Person's date of birth is not a year or a date of the form YYYY-MM-DD."],
+      ["vitalStatus.alive", ["SAM001"], "Person has a date of death, but is not deceased."],
+      ["vitalStatus.order", ["SAM002"], "Person died before they were born."],
+    ]);
+  });
+  it("ages of parents", () => {
+    const ped: PedigreeEntry[] = [
+      { family, sample: "SAM001", father: null, mother: null, sex: "1", birth: 1990 },
+      { family, sample: "SAM002", father: null, mother: null, sex: "2", birth: 1940 },
+      { family, sample: "SAM003", father: "SAM001", mother: "SAM002", sex: "1", birth: 2000 },
+    ];
+    expect(codes(ped)).to.eql([
+      ["parentAge.father", ["SAM001"], ["SAM003"]],
+      ["maternalAge.mother", ["SAM002"], ["SAM003"]],
+    ]);
+    expect(codes(ped, { minParentAge: 9, maxMotherAge: 61 })).to.eql([]);
+  });
+  it("imprecise dates are only reported when certain", () => {
+    const ped: PedigreeEntry[] = [
+      { family, sample: "SAM001", father: null, mother: null, sex: "1", birth: 1988 },
+      { family, sample: "SAM002", father: null, mother: null, sex: "2", birth: "1970-06-01" },
+      { family, sample: "SAM003", father: "SAM001", mother: "SAM002", sex: "1", birth: 2000 },
+    ];
+    // SAM001 may have been 12 by the end of 2000.
+    expect(codes(ped)).to.eql([]);
+    expect(codes([{ ...ped[0], birth: 1989 }, ped[1], ped[2]])).to.eql([["parentAge.father", ["SAM001"], ["SAM003"]]]);
+  });
+  it("posthumous births", () => {
+    const ped: PedigreeEntry[] = [
+      { family, sample: "SAM001", father: null, mother: null, sex: "1", birth: 1950, death: "1999-05-01" },
+      { family, sample: "SAM002", father: null, mother: null, sex: "2", birth: 1950, death: "1999-12-31" },
+      { family, sample: "SAM003", father: "SAM001", mother: "SAM002", sex: "1", birth: "2000-01-01" },
+    ];
+    expect(codes(ped)).to.eql([["posthumousBirth.mother", ["SAM003"], ["SAM002"]]]);
+    expect(codes(ped, { paternalWindow: 0.5 })).to.eql([
+      ["posthumousBirth.father", ["SAM003"], ["SAM001"]],
+      ["posthumousBirth.mother", ["SAM003"], ["SAM002"]],
+    ]);
+    expect(defaultAgeLimits.paternalWindow).to.eql(1);
+  });
+  it("sibling spacing", () => {
+    const twin: TwinAnnotation = { group: "T1", zygosity: "dizygotic" };
+    const ped: PedigreeEntry[] = [
+      { family, sample: "SAM001", father: null, mother: null, sex: "1", birth: 1950 },
+      { family, sample: "SAM002", father: null, mother: null, sex: "2", birth: 1950 },
+      { family, sample: "SAM003", father: "SAM001", mother: "SAM002", sex: "1", birth: "1980-01-01", twin },
+      { family, sample: "SAM004", father: "SAM001", mother: "SAM002", sex: "2", birth: "1980-01-05", twin },
+      { family, sample: "SAM005", father: "SAM001", mother: "SAM002", sex: "2", birth: "1980-03-01" },
+      { family, sample: "SAM006", father: "SAM001", mother: "SAM002", sex: "2", birth: 1980 },
+    ];
+    const res = validatePedigree(ped, options);
+    expect(res.reasons).to.eql(["There is at least one pair of siblings, not twins, born less than 0.5 year(s) apart."]);
+    expect(res.issues.map((i) => [i.code, i.individuals, i.related])).to.eql([
+      ["siblingSpacing.births", ["SAM003"], ["SAM005"]],
+      ["siblingSpacing.births", ["SAM004"], ["SAM005"]],
+      ["siblingSpacing.births", ["SAM005"], ["SAM003", "SAM004"]],
+    ]);
+    expect(validatePedigree(ped, options, {}, { minSiblingSpacing: 0.1 }).ok).to.be.true;
+  });
+});
+
+describe("custom rules", () => {
+  const samplePattern: ValidationRule = {
+    name: "samplePattern",
+    severity: "error",
+    check: (context) => {
+      const bad = context.pedigree.filter((row) => !/^SAM[0-9]{3}$/.test(String(row.sample))).map((row) => row.sample);
+      if (bad.length > 0) {
+        const why = "Sample identifier is not of the form SAM000.";
+        context.report(
+          "There is at least one sample identifier that is not of the form SAM000.",
+          bad.map((who) => [who, why]),
+          bad.map((who) => context.issue("sample", who, why))
+        );
+      }
+    },
+  };
+  const familyProband: ValidationRule = {
+    name: "familyProband",
+    severity: "warning",
+    check: (context) => {
+      for (const [famid, fam] of context.families) {
+        if (!fam.rows.some((i) => context.pedigree[i].proband)) {
+          context.report("There is at least one family with no proband.", undefined, [
+            { code: "family", detail: null, family: famid, individuals: [], rows: [], related: [] },
+          ]);
+        }
+      }
+    },
+  };
+  const ped: PedigreeEntry[] = [
+    { family: "FAM01", sample: "SAM001", mother: "SAM002", father: "X3", sex: "1" },
+    { family: "FAM01", sample: "SAM002", mother: null, father: null, sex: "2" },
+    { family: "FAM01", sample: "X3", mother: null, father: null, sex: "1" },
+  ];
+
+  afterEach(() => {
+    for (const rule of validationRules()) {
+      unregisterValidationRule(rule.name);
+    }
+  });
+
+  it("register and unregister rules", () => {
+    expect(registerValidationRule(samplePattern)).to.be.true;
+    expect(registerValidationRule(familyProband)).to.be.true;
+    expect(registerValidationRule({ ...samplePattern, name: "cycles" })).to.be.false;
+    expect(validationRules().map((rule) => rule.name)).to.eql(["samplePattern", "familyProband"]);
+    expect(unregisterValidationRule("samplePattern")).to.be.true;
+    expect(unregisterValidationRule("samplePattern")).to.be.false;
+    expect(validationRules().map((rule) => rule.name)).to.eql(["familyProband"]);
+  });
+
+  it("rules report into the same result", () => {
+    registerValidationRule(samplePattern);
+    registerValidationRule(familyProband);
+    const res = validatePedigree(ped, strict);
+    expect(res.ok).to.be.false;
+    expect(res.reasons).to.eql([
+      "There is at least one sample identifier that is not of the form SAM000.",
+      "There is at least one family with no proband.",
+    ]);
+    expect(res.whys).to.eql({ X3: ["Sample identifier is not of the form SAM000."] });
+    expect(res.issues.map((i) => [i.code, i.check, i.rule, i.severity, i.family, i.individuals, i.rows])).to.eql([
+      ["samplePattern.sample", "rules", "samplePattern", "error", "FAM01", ["X3"], [2]],
+      ["familyProband.family", "rules", "familyProband", "warning", "FAM01", [], []],
+    ]);
+  });
+
+  it("severity from the options", () => {
+    registerValidationRule(samplePattern);
+    registerValidationRule(familyProband);
+    const res = validatePedigree(ped, { ...strict, rules: { samplePattern: "warning", familyProband: "ignore" } });
+    expect(res.ok).to.be.true;
+    expect(res.issues.map((i) => [i.code, i.severity])).to.eql([["samplePattern.sample", "warning"]]);
+  });
+
+  it("rules see the family indexes", () => {
+    const seen: DefiniteIdentifier[] = [];
+    registerValidationRule({
+      name: "indexes",
+      severity: "error",
+      check: (context) => {
+        const fam = context.families.get("FAM01");
+        seen.push(...fam.parent.get("SAM001"), ...fam.child.get("SAM002"), ...fam.members);
+      },
+    });
+    validatePedigree(ped, strict);
+    expect(seen).to.eql(["X3", "SAM002", "SAM001", "SAM001", "SAM002", "X3"]);
+  });
+
+  it("rules cannot change the rows of issues already reported", () => {
+    registerValidationRule({
+      name: "meddle",
+      severity: "error",
+      check: (context) => {
+        context.referring.get("SAM002").push(99);
+      },
     });
+    const res = validatePedigree([{ family: "FAM01", sample: "SAM001", mother: "SAM002", father: "SAM002", sex: "2" }], strict);
+    expect(res.issues.find((issue) => issue.code == "duplicates.bothParents").rows).to.eql([0]);
   });
 });
@@ -0,0 +1,167 @@
+import { PedigreeEntry } from "../src/pedigree";
+import { plinkMissingIdentifiers } from "../src/normalize";
+import { readPhenopacketFamily, writePhenopacketFamily } from "../src/phenopacket";
+
+import * as mocha from "mocha";
+import * as chai from "chai";
+
+const expect = chai.expect;
+
+const family = {
+  id: "FAM01",
+  proband: {
+    id: "P1",
+    subject: { id: "SAM001", sex: "MALE" },
+    phenotypicFeatures: [{ type: { id: "HP:0001250", label: "Seizure" } }, { type: { id: "HP:0001263" }, excluded: true }],
+  },
+  pedigree: {
+    persons: [
+      {
+        familyId: "FAM01",
+        individualId: "SAM001",
+        paternalId: "SAM002",
+        maternalId: "SAM003",
+        sex: "MALE",
+        affectedStatus: "AFFECTED",
+      },
+      { familyId: "FAM01", individualId: "SAM002", paternalId: "0", maternalId: "0", sex: "MALE", affectedStatus: "UNAFFECTED" },
+      { familyId: "FAM01", individualId: "SAM003", sex: "FEMALE", affectedStatus: "MISSING" },
+    ],
+  },
+};
+
+describe("Phenopacket Family messages.", () => {
+  it("read a family", () => {
+    const res = readPhenopacketFamily(JSON.stringify(family));
+    expect(res.ok).to.be.true;
+    expect(res.issues).to.eql([]);
+    expect(res.entries).to.eql([
+      {
+        family: "FAM01",
+        sample: "SAM001",
+        father: "SAM002",
+        mother: "SAM003",
+        sex: "Male",
+        affected: "Affected",
+        proband: true,
+        hpo: ["HP:0001250"],
+      },
+      { family: "FAM01", sample: "SAM002", father: null, mother: null, sex: "Male", affected: "Unaffected" },
+      { family: "FAM01", sample: "SAM003", father: null, mother: null, sex: "Female" },
+    ]);
+  });
+  it("read problems", () => {
+    expect(readPhenopacketFamily("{").reasons).to.eql(["The text is not valid JSON."]);
+    expect(readPhenopacketFamily({ id: "FAM01" }).issues.map((i) => i.code)).to.eql(["shape.pedigree"]);
+    const res = readPhenopacketFamily({
+      id: "FAM01",
+      proband: { id: "P1", subject: { id: "SAM009" } },
+      pedigree: {
+        persons: [
+          { familyId: "FAM01" },
+          { familyId: "FAM01", individualId: "SAM001", sex: "OTHER_SEX" },
+          { familyId: "FAM01", individualId: "SAM002", sex: "M" },
+        ],
+      },
+    });
+    expect(res.ok).to.be.false;
+    expect(res.entries.map((row) => [row.sample, row.sex])).to.eql([["SAM001", null]]);
+    expect(res.problematic).to.eql(new Set(["SAM001", "SAM002", "SAM009"]));
+    expect(res.issues.map((i) => [i.code, i.severity, i.individuals, i.rows])).to.eql([
+      ["shape.person", "error", [], [0]],
+      ["sex.other", "warning", ["SAM001"], [1]],
+      ["sex.unrecognised", "error", ["SAM002"], [2]],
+      ["proband.unknown", "error", ["SAM009"], []],
+    ]);
+    expect(res.whys["SAM002"]).to.eql(['Person\'s sex "M" is not recognised.']);
+  });
+  it("write a family", () => {
+    const ped: PedigreeEntry[] = [
+      {
+        family: "FAM01",
+        sample: "SAM001",
+        father: "SAM002",
+        mother: "SAM003",
+        sex: "1",
+        affected: 2,
+        proband: true,
+        hpo: ["HP:0001250"],
+      },
+      { family: "FAM01", sample: "SAM002", sex: "1", affected: 1 },
+      { family: "FAM01", sample: "SAM003", sex: "2", hpo: ["HP:0000252"] },
+    ];
+    const res = writePhenopacketFamily(ped, { created: "2024-01-01T00:00:00Z" });
+    expect(res.ok).to.be.true;
+    expect(res.issues).to.eql([]);
+    expect(res.family).to.eql({
+      id: "FAM01",
+      proband: { id: "SAM001", subject: { id: "SAM001", sex: "MALE" }, phenotypicFeatures: [{ type: { id: "HP:0001250" } }] },
+      relatives: [
+        { id: "SAM003", subject: { id: "SAM003", sex: "FEMALE" }, phenotypicFeatures: [{ type: { id: "HP:0000252" } }] },
+      ],
+      pedigree: {
+        persons: [
+          {
+            familyId: "FAM01",
+            individualId: "SAM001",
+            paternalId: "SAM002",
+            maternalId: "SAM003",
+            sex: "MALE",
+            affectedStatus: "AFFECTED",
+          },
+          {
+            familyId: "FAM01",
+            individualId: "SAM002",
+            paternalId: "0",
+            maternalId: "0",
+            sex: "MALE",
+            affectedStatus: "UNAFFECTED",
+          },
+          {
+            familyId: "FAM01",
+            individualId: "SAM003",
+            paternalId: "0",
+            maternalId: "0",
+            sex: "FEMALE",
+            affectedStatus: "MISSING",
+          },
+        ],
+      },
+      metaData: {
+        created: "2024-01-01T00:00:00Z",
+        createdBy: "pedigree-tools-js",
+        phenopacketSchemaVersion: "2.0",
+        resources: [],
+      },
+    });
+    const back = readPhenopacketFamily(res.family);
+    expect(back.entries.map((row) => row.hpo)).to.eql([["HP:0001250"], undefined, ["HP:0000252"]]);
+  });
+  it("write problems", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", sex: "other", proband: true },
+      { family: "FAM02", sample: "SAM002", sex: "1", proband: true },
+    ];
+    const res = writePhenopacketFamily(ped);
+    expect(res.ok).to.be.true;
+    expect(res.issues.map((i) => [i.code, i.individuals])).to.eql([
+      ["families.multiple", []],
+      ["sex.other", ["SAM001"]],
+      ["proband.extra", ["SAM002"]],
+    ]);
+    expect(res.family.pedigree.persons[0].sex).to.eql("OTHER_SEX");
+  });
+  it("write missing parents as given by the normalization options", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: 1, father: "-9", mother: 0, sex: "1", proband: true },
+      { family: "FAM01", sample: 0, father: null, mother: null, sex: "1" },
+    ];
+    const res = writePhenopacketFamily(ped, {}, { missing: plinkMissingIdentifiers });
+    expect(res.family.pedigree.persons.map((p) => [p.paternalId, p.maternalId])).to.eql([
+      ["0", "0"],
+      ["0", "0"],
+    ]);
+    const plain = writePhenopacketFamily(ped);
+    expect(plain.family.pedigree.persons[0].paternalId).to.eql("-9");
+  });
+});
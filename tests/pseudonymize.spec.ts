@@ -0,0 +1,101 @@
+import { createHmac } from "crypto";
+import { PedigreeEntry } from "../src/pedigree";
+import { pseudonymizePedigree, reidentifyPedigree } from "../src/pseudonymize";
+
+import * as mocha from "mocha";
+import * as chai from "chai";
+
+const expect = chai.expect;
+
+const ped: PedigreeEntry[] = [
+  {
+    family: "FAM01",
+    sample: "SAM001",
+    father: "SAM002",
+    mother: "SAM003",
+    sex: "1",
+    affected: 2,
+    proband: true,
+    hpo: ["HP:0001250"],
+  },
+  { family: "FAM01", sample: "SAM002", father: null, mother: null, sex: "1", affected: 1, birth: 1950 },
+  { family: "FAM02", sample: 4, father: 0, mother: "SAM005", sex: "2" },
+];
+
+describe("Pseudonymise pedigrees.", () => {
+  it("numbered pseudonyms, without shuffling", () => {
+    const res = pseudonymizePedigree(ped, { shuffle: false });
+    expect(res.pedigree).to.eql([
+      { family: "FAM1", sample: "S1", father: "S2", mother: "S3", sex: "1", affected: 2 },
+      { family: "FAM1", sample: "S2", father: null, mother: null, sex: "1", affected: 1 },
+      { family: "FAM2", sample: "S4", father: null, mother: "S5", sex: "2" },
+    ]);
+    expect(res.table).to.eql([
+      { kind: "family", original: "FAM01", pseudonym: "FAM1" },
+      { kind: "family", original: "FAM02", pseudonym: "FAM2" },
+      { kind: "sample", original: "SAM001", pseudonym: "S1" },
+      { kind: "sample", original: "SAM002", pseudonym: "S2" },
+      { kind: "sample", original: "SAM003", pseudonym: "S3" },
+      { kind: "sample", original: 4, pseudonym: "S4" },
+      { kind: "sample", original: "SAM005", pseudonym: "S5" },
+    ]);
+    expect(ped[0].sample).to.eql("SAM001");
+  });
+
+  it("keep some fields", () => {
+    const res = pseudonymizePedigree(ped, { shuffle: false, keep: ["proband", "hpo"] });
+    expect(res.pedigree[0]).to.eql({
+      family: "FAM1",
+      sample: "S1",
+      father: "S2",
+      mother: "S3",
+      sex: "1",
+      proband: true,
+      hpo: ["HP:0001250"],
+    });
+    expect(res.pedigree[1]).to.eql({ family: "FAM1", sample: "S2", father: null, mother: null, sex: "1" });
+  });
+
+  it("shuffle rows, numbering in the new order", () => {
+    // Fisher-Yates, always choosing the first row: [a, b, c] => [c, b, a] => [b, c, a].
+    const res = pseudonymizePedigree(ped, { random: () => 0 });
+    expect(res.pedigree.map((row) => row.sample)).to.eql(["S1", "S2", "S4"]);
+    const samples = res.table.filter((entry) => entry.kind == "sample").map((entry) => entry.original);
+    expect(samples).to.eql(["SAM002", 4, "SAM005", "SAM001", "SAM003"]);
+    expect(res.pedigree[2]).to.eql({ family: "FAM1", sample: "S4", father: "S1", mother: "S5", sex: "1", affected: 2 });
+  });
+
+  it("keyed pseudonyms are the same every time", () => {
+    const pseudonym = (kind: string, id: string | number) =>
+      createHmac("sha256", "secret")
+        .update(`${kind}:${typeof id}:${id}`)
+        .digest("hex")
+        .slice(0, 12);
+    const a = pseudonymizePedigree(ped, { pseudonym });
+    const b = pseudonymizePedigree(ped.slice(1), { pseudonym });
+    const sam002 = (res: typeof a) => res.table.find((entry) => entry.original == "SAM002").pseudonym;
+    expect(sam002(a)).to.eql(sam002(b));
+    expect(sam002(a)).to.match(/^[0-9a-f]{12}$/);
+  });
+
+  it("pseudonyms that collide are reported", () => {
+    const res = pseudonymizePedigree(ped, {
+      shuffle: false,
+      pseudonym: (kind, id) => (kind == "family" ? "F" : String(id).slice(0, 3)),
+    });
+    expect(res.ok).to.be.false;
+    expect(res.collisions).to.eql([
+      { kind: "family", pseudonym: "F", originals: ["FAM01", "FAM02"] },
+      { kind: "sample", pseudonym: "SAM", originals: ["SAM001", "SAM002", "SAM003", "SAM005"] },
+    ]);
+    expect(pseudonymizePedigree(ped).ok).to.be.true;
+    expect(pseudonymizePedigree(ped).collisions).to.eql([]);
+  });
+
+  it("re-identify", () => {
+    const res = pseudonymizePedigree(ped, { keep: ["affected", "proband", "hpo", "birth"] });
+    const back = reidentifyPedigree(res.pedigree, res.table);
+    const bySample = (rows: PedigreeEntry[]) => [...rows].sort((x, y) => String(x.sample).localeCompare(String(y.sample)));
+    expect(bySample(back)).to.eql(bySample([ped[0], ped[1], { ...ped[2], father: null }]));
+  });
+});
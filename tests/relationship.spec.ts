@@ -0,0 +1,103 @@
+import { PedigreeEntry } from "../src/pedigree";
+import { Pedigree } from "../src/model";
+import { classifyRelationship } from "../src/relationship";
+
+import * as mocha from "mocha";
+import * as chai from "chai";
+
+const expect = chai.expect;
+
+// G1 x G2 have P1, P2 (full sibs); G1 x G3 have P3 (half sib).
+// P1 x M1 have C1, P2 x M2 have C2, and C1 x M3 have D1.
+// Brothers B1, B2 marry sisters B3, B4 to give double first cousins K1, K2.
+//
+const ped: PedigreeEntry[] = [
+  { family: "FAM01", sample: "G1", sex: "1" },
+  { family: "FAM01", sample: "G2", sex: "2" },
+  { family: "FAM01", sample: "G3", sex: "2" },
+  { family: "FAM01", sample: "P1", father: "G1", mother: "G2", sex: "1" },
+  { family: "FAM01", sample: "P2", father: "G1", mother: "G2", sex: "2" },
+  { family: "FAM01", sample: "P3", father: "G1", mother: "G3", sex: "1" },
+  { family: "FAM01", sample: "C1", father: "P1", mother: "M1", sex: "2" },
+  { family: "FAM01", sample: "C2", father: "M2", mother: "P2", sex: null },
+  { family: "FAM01", sample: "D1", father: "M3", mother: "C1", sex: "1" },
+  { family: "FAM02", sample: "B1", father: "X1", mother: "X2", sex: "1" },
+  { family: "FAM02", sample: "B2", father: "X1", mother: "X2", sex: "1" },
+  { family: "FAM02", sample: "B3", father: "Y1", mother: "Y2", sex: "2" },
+  { family: "FAM02", sample: "B4", father: "Y1", mother: "Y2", sex: "2" },
+  { family: "FAM02", sample: "K1", father: "B1", mother: "B3", sex: "1" },
+  { family: "FAM02", sample: "K2", father: "B2", mother: "B4", sex: "2" },
+];
+
+describe("Classify relationships.", () => {
+  const P = new Pedigree(ped);
+  it("self and unknown", () => {
+    expect(classifyRelationship(P, "P1", "P1").kind).to.eql("self");
+    expect(classifyRelationship(P, "P1", "nobody")).to.be.undefined;
+  });
+  it("parent and child", () => {
+    const rel = classifyRelationship(P, "P1", "G1");
+    expect(rel.kind).to.eql("ancestor");
+    expect(rel.up).to.eql(1);
+    expect(rel.down).to.eql(0);
+    expect(rel.description).to.eql("G1 is the father of P1");
+    expect(rel.paths).to.eql([{ ancestor: "G1", fromA: ["P1", "G1"], fromB: ["G1"] }]);
+    expect(classifyRelationship(P, "G2", "P2").description).to.eql("P2 is the daughter of G2");
+  });
+  it("grandparents", () => {
+    expect(classifyRelationship(P, "C1", "G2").description).to.eql("G2 is the grandmother of C1");
+    expect(classifyRelationship(P, "D1", "G1").description).to.eql("G1 is the great-grandfather of D1");
+    expect(classifyRelationship(P, "G1", "C2").description).to.eql("C2 is the grandchild of G1");
+  });
+  it("siblings", () => {
+    const full = classifyRelationship(P, "P1", "P2");
+    expect(full.kind).to.eql("sibling");
+    expect(full.half).to.be.false;
+    expect(full.description).to.eql("P2 is the sister of P1");
+    expect(full.paths.map((path) => path.ancestor)).to.eql(["G1", "G2"]);
+    const half = classifyRelationship(P, "P1", "P3");
+    expect(half.half).to.be.true;
+    expect(half.description).to.eql("P3 is the half-brother of P1");
+  });
+  it("avuncular", () => {
+    expect(classifyRelationship(P, "C1", "P2").description).to.eql("P2 is the aunt of C1");
+    expect(classifyRelationship(P, "P2", "C1").description).to.eql("C1 is the niece of P2");
+    expect(classifyRelationship(P, "C2", "P3").description).to.eql("P3 is the half-uncle of C2");
+    expect(classifyRelationship(P, "P2", "D1").description).to.eql("D1 is the great-nephew of P2");
+  });
+  it("cousins", () => {
+    const rel = classifyRelationship(P, "C1", "C2");
+    expect(rel.kind).to.eql("cousin");
+    expect(rel.cousinDegree).to.eql(1);
+    expect(rel.removed).to.eql(0);
+    expect(rel.description).to.eql("C2 is the first cousin of C1");
+    expect(rel.paths).to.eql([
+      { ancestor: "G1", fromA: ["C1", "P1", "G1"], fromB: ["C2", "P2", "G1"] },
+      { ancestor: "G2", fromA: ["C1", "P1", "G2"], fromB: ["C2", "P2", "G2"] },
+    ]);
+    expect(classifyRelationship(P, "C2", "D1").description).to.eql("D1 is the first cousin once removed of C2");
+    const dbl = classifyRelationship(P, "K1", "K2");
+    expect(dbl.double).to.be.true;
+    expect(dbl.description).to.eql("K2 is the double first cousin of K1");
+  });
+  it("unrelated", () => {
+    const rel = classifyRelationship(ped, "C1", "K1");
+    expect(rel.kind).to.eql("unrelated");
+    expect(rel.paths).to.eql([]);
+    expect(classifyRelationship(P, "G1", "G2").description).to.eql("G1 and G2 are not related");
+  });
+  it("numeric and string identifiers with the same spelling", () => {
+    const kin: PedigreeEntry[] = [
+      { family: "F", sample: 1, father: "1", mother: "M", sex: 1 },
+      { family: "F", sample: "1", father: null, mother: null, sex: 1 },
+      { family: "F", sample: "M", father: null, mother: null, sex: 2 },
+      { family: "F", sample: "C", father: "1", mother: "M", sex: 2 },
+    ];
+    const rel = classifyRelationship(kin, 1, "1");
+    expect(rel.kind).to.eql("ancestor");
+    expect(rel.description).to.eql("1 is the father of 1");
+    const sib = classifyRelationship(kin, 1, "C");
+    expect(sib.kind).to.eql("sibling");
+    expect(sib.half).to.be.false;
+  });
+});
@@ -0,0 +1,91 @@
+import { PedigreeEntry } from "../src/pedigree";
+import { repairPedigree, allRepairs } from "../src/repair";
+import { plinkMissingIdentifiers, plinkSexEncoding } from "../src/normalize";
+
+import * as mocha from "mocha";
+import * as chai from "chai";
+
+const expect = chai.expect;
+
+describe("Repair pedigrees.", () => {
+  it("no repairs by default", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", father: "SAM002", mother: "SAM003", sex: "1" },
+      { family: "FAM01", sample: "SAM001", father: "SAM002", mother: "SAM003", sex: "1" },
+    ];
+    const res = repairPedigree(ped);
+    expect(res.pedigree).to.eql(ped);
+    expect(res.pedigree[0]).to.not.equal(ped[0]);
+    expect(res.changes).to.eql([]);
+  });
+  it("drop exact duplicates", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", father: "SAM002", sex: "1" },
+      { family: "FAM01", sample: "SAM001", father: "SAM002", mother: null, sex: "Male" },
+      { family: "FAM01", sample: "SAM001", father: "SAM002", mother: null, sex: "Female" },
+    ];
+    const res = repairPedigree(ped, { dropDuplicates: true });
+    expect(res.pedigree).to.eql([ped[0], ped[2]]);
+    expect(res.changes).to.eql([{ kind: "dropDuplicates", sample: "SAM001", description: "Removed a duplicate row for SAM001." }]);
+  });
+  it("infer sex and add founders", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", father: "SAM002", mother: "SAM003", sex: "1" },
+      { family: "FAM01", sample: "SAM003", sex: 0 },
+    ];
+    const res = repairPedigree(ped, { inferSex: true, addFounders: true });
+    expect(res.pedigree).to.eql([
+      { family: "FAM01", sample: "SAM001", father: "SAM002", mother: "SAM003", sex: "1" },
+      { family: "FAM01", sample: "SAM003", sex: "Female" },
+      { family: "FAM01", sample: "SAM002", father: null, mother: null, sex: "Male" },
+    ]);
+    expect(res.changes.map((c) => c.kind)).to.eql(["inferSex", "addFounders"]);
+    expect(ped[1].sex).to.eql(0);
+  });
+  it("missing parents from the normalization options", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", father: "0", mother: "SAM003", sex: "1" },
+      { family: "FAM01", sample: "SAM001", father: "-9", mother: "SAM003", sex: "1" },
+    ];
+    const res = repairPedigree(ped, { dropDuplicates: true, addFounders: true }, { missing: plinkMissingIdentifiers });
+    expect(res.pedigree).to.eql([
+      { family: "FAM01", sample: "SAM001", father: "0", mother: "SAM003", sex: "1" },
+      { family: "FAM01", sample: "SAM003", father: null, mother: null, sex: "Female" },
+    ]);
+  });
+  it("split unconnected individuals into new families", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", father: "SAM002", mother: "SAM003", sex: "1" },
+      { family: "FAM01", sample: "SAM004", sex: "1" },
+      { family: "FAM01", sample: "SAM005", mother: "SAM006", sex: "2" },
+      { family: "FAM01_2", sample: "SAM007", sex: "2" },
+    ];
+    const res = repairPedigree(ped, allRepairs);
+    expect(res.pedigree.map((row) => [row.sample, row.family])).to.eql([
+      ["SAM001", "FAM01"],
+      ["SAM004", "FAM01_4"],
+      ["SAM005", "FAM01_3"],
+      ["SAM007", "FAM01_2"],
+      ["SAM002", "FAM01"],
+      ["SAM003", "FAM01"],
+      ["SAM006", "FAM01_3"],
+    ]);
+    expect(res.changes.filter((c) => c.kind == "splitUnconnected").map((c) => c.description)).to.eql([
+      "Moved SAM005 from family FAM01 to FAM01_3.",
+      "Moved SAM006 from family FAM01 to FAM01_3.",
+      "Moved SAM004 from family FAM01 to FAM01_4.",
+    ]);
+  });
+  it("sex in the encoding of the normalization options", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", father: "SAM002", mother: "SAM003", sex: "M" },
+      { family: "FAM01", sample: "SAM001", father: "SAM002", mother: "SAM003", sex: "m" },
+      { family: "FAM01", sample: "SAM001", father: "SAM002", mother: "SAM003", sex: "F" },
+      { family: "FAM01", sample: "SAM002", sex: "-9" },
+      { family: "FAM01", sample: "SAM003", sex: "f" },
+    ];
+    const res = repairPedigree(ped, { dropDuplicates: true, inferSex: true }, { sex: plinkSexEncoding });
+    expect(res.pedigree.map((row) => row.sex)).to.eql(["M", "F", "Male", "f"]);
+    expect(res.changes.map((c) => c.kind)).to.eql(["dropDuplicates", "inferSex"]);
+  });
+});
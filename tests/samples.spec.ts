@@ -0,0 +1,76 @@
+import { PedigreeEntry, permissive } from "../src/pedigree";
+import { crossCheckSamples, parseVcfSamples } from "../src/samples";
+
+import * as mocha from "mocha";
+import * as chai from "chai";
+
+const expect = chai.expect;
+
+const vcf = [
+  "##fileformat=VCFv4.2",
+  "##contig=<ID=1>",
+  "#CHROM\tPOS\tID\tREF\tALT\tQUAL\tFILTER\tINFO\tFORMAT\tSAM001\tSAM002\tSAM009",
+  "1\t100\t.\tA\tG\t50\tPASS\t.\tGT\t0/1\t0/0\t0/1",
+  "",
+].join("\n");
+
+// Two trios sharing a father, and a grandmother.
+//
+const ped: PedigreeEntry[] = [
+  { family: "FAM01", sample: "SAM001", father: "SAM002", mother: "SAM003", sex: "1" },
+  { family: "FAM01", sample: "SAM002", father: null, mother: "SAM005", sex: "1" },
+  { family: "FAM01", sample: "SAM003", father: null, mother: null, sex: "2" },
+  { family: "FAM01", sample: "SAM004", father: "SAM002", mother: "SAM003", sex: "2" },
+];
+
+describe("Cross-check samples.", () => {
+  it("parse VCF sample names", () => {
+    expect(parseVcfSamples(vcf)).to.eql(["SAM001", "SAM002", "SAM009"]);
+    expect(parseVcfSamples("#CHROM\tPOS\tID\tREF\tALT\tQUAL\tFILTER\tINFO\n")).to.eql([]);
+    expect(parseVcfSamples("##fileformat=VCFv4.2\n1\t100\t.\tA\tG\n")).to.be.undefined;
+  });
+
+  it("all samples match (good)", () => {
+    const res = crossCheckSamples(ped, ["SAM001", "SAM002", "SAM003", "SAM004", "SAM005"]);
+    expect(res.ok).to.be.true;
+    expect(res.issues).to.eql([]);
+  });
+
+  it("mismatches", () => {
+    const res = crossCheckSamples(ped, parseVcfSamples(vcf));
+    expect(res.ok).to.be.false;
+    expect(res.reasons).to.eql([
+      "There is at least one individual in the pedigree with no data.",
+      "There is at least one sample with data that is not in the pedigree.",
+      "There is at least one trio in which some, but not all, individuals have data.",
+    ]);
+    expect(res.issues.map((i) => [i.code, i.severity, i.individuals, i.rows, i.related])).to.eql([
+      ["unsequenced.sample", "warning", ["SAM003"], [2], []],
+      ["unsequenced.sample", "warning", ["SAM005"], [], []],
+      ["unsequenced.sample", "warning", ["SAM004"], [3], []],
+      ["unknownSample.sample", "error", ["SAM009"], [], []],
+      ["incompleteTrio.trio", "warning", ["SAM001"], [0], ["SAM003"]],
+      ["incompleteTrio.trio", "warning", ["SAM004"], [3], ["SAM004", "SAM003"]],
+    ]);
+    expect(res.whys["SAM009"]).to.eql(["Sample is not in the pedigree."]);
+  });
+
+  it("severities from the options", () => {
+    const res = crossCheckSamples(ped, parseVcfSamples(vcf), permissive);
+    expect(res.ok).to.be.true;
+    expect(res.issues.map((i) => [i.code, i.severity])).to.eql([["unknownSample.sample", "warning"]]);
+  });
+
+  it("parents without rows of their own", () => {
+    const res = crossCheckSamples(ped, ["SAM001", "SAM002", "SAM003", "SAM004"]);
+    expect(res.issues.map((i) => [i.code, i.family, i.individuals, i.rows])).to.eql([
+      ["unsequenced.sample", "FAM01", ["SAM005"], []],
+    ]);
+    expect(res.whys["SAM005"]).to.eql(["Person has no data."]);
+  });
+
+  it("numeric identifiers match sample names", () => {
+    const numeric: PedigreeEntry[] = [{ family: 1, sample: 101, father: null, mother: null, sex: "1" }];
+    expect(crossCheckSamples(numeric, ["101"]).issues).to.eql([]);
+  });
+});
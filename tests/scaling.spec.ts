@@ -0,0 +1,99 @@
+import { PedigreeEntry, permissive, strict, validatePedigree } from "../src/pedigree";
+import { Pedigree } from "../src/model";
+
+import * as mocha from "mocha";
+import * as chai from "chai";
+
+const expect = chai.expect;
+
+// A cohort of three-generation families of 8: two founders with three
+// children, one of whom has two children with a founder who married in.
+// Half the families use numeric identifiers.
+//
+function cohort(families: number): PedigreeEntry[] {
+  const ped: PedigreeEntry[] = [];
+  for (let f = 0; f < families; ++f) {
+    const family = f % 2 == 0 ? `FAM${f}` : f;
+    const id = (i: number) => (f % 2 == 0 ? `FAM${f}-${i}` : f * 10 + i);
+    ped.push({ family, sample: id(1), father: null, mother: null, sex: "Male", affected: "Unaffected" });
+    ped.push({ family, sample: id(2), father: null, mother: null, sex: "Female", affected: "Unaffected" });
+    ped.push({ family, sample: id(3), father: id(1), mother: id(2), sex: "Male", affected: "Affected" });
+    ped.push({ family, sample: id(4), father: id(1), mother: id(2), sex: "Female", affected: "Unaffected" });
+    ped.push({ family, sample: id(5), father: id(1), mother: id(2), sex: "Female", affected: "Unaffected" });
+    ped.push({ family, sample: id(6), father: null, mother: null, sex: "Female", affected: "Unaffected" });
+    ped.push({ family, sample: id(7), father: id(3), mother: id(6), sex: "Male", affected: "Affected", proband: true });
+    ped.push({ family, sample: id(8), father: id(3), mother: id(6), sex: "Female", affected: "Unaffected" });
+  }
+  return ped;
+}
+
+// The number of index operations (Map and Set lookups and updates) and array
+// elements scanned while running `f`. Unlike a timing, this does not depend on
+// the machine, so it can be compared exactly between cohorts of different sizes.
+//
+function operations(f: () => void): number {
+  let count = 0;
+  const patches: [object, PropertyKey, (this: unknown, ...args: unknown[]) => unknown][] = [];
+  const patch = (proto: object, key: PropertyKey, cost: (self: unknown) => number) => {
+    const original = (proto as { [key: PropertyKey]: (...args: unknown[]) => unknown })[key];
+    patches.push([proto, key, original]);
+    Object.defineProperty(proto, key, {
+      configurable: true,
+      writable: true,
+      value: function (this: unknown, ...args: unknown[]) {
+        count += cost(this);
+        return original.apply(this, args);
+      },
+    });
+  };
+  for (const key of ["get", "has", "set"]) {
+    patch(Map.prototype, key, () => 1);
+  }
+  for (const key of ["has", "add"]) {
+    patch(Set.prototype, key, () => 1);
+  }
+  const scans = ["filter", "map", "forEach", "some", "every", "find", "findIndex", "indexOf", "includes", "reduce"];
+  for (const key of [...scans, Symbol.iterator]) {
+    patch(Array.prototype, key, (self) => (self as unknown[]).length);
+  }
+  try {
+    f();
+  } finally {
+    for (const [proto, key, original] of patches.reverse()) {
+      Object.defineProperty(proto, key, { configurable: true, writable: true, value: original });
+    }
+  }
+  return count;
+}
+
+// Going from `small` to 8 times as many families should take about 8 times as many
+// operations; quadratic growth, such as a scan of every row per family, would be 64 times.
+//
+const small = 100;
+const large = 8 * small;
+const limit = 9;
+
+describe("scaling to large cohorts", () => {
+  const smallCohort = cohort(small);
+  const largeCohort = cohort(large);
+
+  it("the synthetic cohort is valid", () => {
+    const res = validatePedigree(smallCohort, { ...strict, multipleFamilies: "ignore" });
+    expect(res.ok).to.be.true;
+    expect(res.issues).to.eql([]);
+  });
+
+  it("validation is near-linear", () => {
+    const a = operations(() => validatePedigree(smallCohort, permissive));
+    const b = operations(() => validatePedigree(largeCohort, permissive));
+    expect(b / a).to.be.lessThan(limit);
+  });
+
+  it("building the model is near-linear", () => {
+    const P = new Pedigree(largeCohort);
+    expect(P.components().length).to.eql(large);
+    const a = operations(() => new Pedigree(smallCohort).components());
+    const b = operations(() => new Pedigree(largeCohort).components());
+    expect(b / a).to.be.lessThan(limit);
+  });
+});
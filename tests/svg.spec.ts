@@ -0,0 +1,74 @@
+import { PedigreeEntry, PedigreeValidationResult } from "../src/pedigree";
+import { layoutPedigree } from "../src/layout";
+import { renderSvg } from "../src/svg";
+import { plinkSexEncoding } from "../src/normalize";
+
+import * as mocha from "mocha";
+import * as chai from "chai";
+
+const expect = chai.expect;
+
+describe("Render pedigrees as SVG.", () => {
+  it("symbols by sex and affection status", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", father: "SAM002", mother: "SAM003", sex: "0", affected: 2 },
+      { family: "FAM01", sample: "SAM003", sex: "2" },
+    ];
+    const [fam] = layoutPedigree(ped);
+    const svg = renderSvg(fam, ped);
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).to.be.true;
+    expect(svg).to.contain('<rect x="0" y="0" width="40" height="40" fill="white" stroke="black"/>');
+    expect(svg).to.contain('<circle cx="90" cy="20" r="20" fill="white" stroke="black"/>');
+    expect(svg).to.contain('<polygon points="55,100 75,120 55,140 35,120" fill="black" stroke="black"/>');
+    expect(svg).to.contain(">SAM001</text>");
+  });
+  it("symbols in the encoding of the normalization options", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "SAM001", father: "SAM002", mother: "SAM003", sex: "m" },
+      { family: "FAM01", sample: "SAM003", sex: "f" },
+    ];
+    const [fam] = layoutPedigree(ped);
+    const svg = renderSvg(fam, ped, {}, { sex: plinkSexEncoding });
+    expect(svg).to.contain('<rect x="35" y="100" width="40" height="40" fill="white" stroke="black"/>');
+    expect(svg).to.contain('<circle cx="90" cy="20" r="20" fill="white" stroke="black"/>');
+    expect(svg).not.to.contain("<polygon");
+    expect(renderSvg(fam, ped)).to.contain('<polygon points="55,100 75,120 55,140 35,120" fill="white" stroke="black"/>');
+  });
+  it("deceased, proband and consanguinity", () => {
+    const ped: PedigreeEntry[] = [
+      { family: "FAM01", sample: "C1", father: "D", mother: "M", sex: "1", deceased: true },
+      { family: "FAM01", sample: "C2", father: "D", mother: "M", sex: "2" },
+      { family: "FAM01", sample: "G1", father: "C1", mother: "C2", sex: "1", proband: true },
+      { family: "FAM01", sample: "D", sex: "1", death: "1999-03-01" },
+    ];
+    const [fam] = layoutPedigree(ped);
+    const svg = renderSvg(fam, ped, { labels: false });
+    const c1 = fam.nodes.find((n) => n.id == "C1");
+    expect(svg).to.contain(`<line x1="${c1.x - 24}" y1="${c1.y + 24}" x2="${c1.x + 24}" y2="${c1.y - 24}" stroke="black"/>`);
+    const d = fam.nodes.find((n) => n.id == "D");
+    expect(svg).to.contain(`<line x1="${d.x - 24}" y1="${d.y + 24}" x2="${d.x + 24}" y2="${d.y - 24}" stroke="black"/>`);
+    const m = fam.nodes.find((n) => n.id == "M");
+    expect(svg).to.not.contain(`<line x1="${m.x - 24}" y1="${m.y + 24}"`);
+    const mating = fam.segments.find((s) => s.consanguineous);
+    expect(svg).to.contain(`<line x1="${mating.x1}" y1="${mating.y1 - 2}"`);
+    expect(svg).to.contain(`<line x1="${mating.x1}" y1="${mating.y1 + 2}"`);
+    expect(svg.match(/<polygon points="[^"]*" fill="black"\/>/g)).to.have.length(1);
+    expect(svg).to.not.contain("<text");
+  });
+  it("highlight validation problems", () => {
+    const ped: PedigreeEntry[] = [{ family: "FAM01", sample: "SAM001", father: "SAM002", mother: "SAM002", sex: "1" }];
+    const validation: PedigreeValidationResult = {
+      ok: false,
+      reasons: [],
+      problematic: new Set(["SAM002"]),
+      whys: { SAM002: ["Person is used as both a mother and a father.", "<escaped> & shown"] },
+      issues: [],
+    };
+    const [fam] = layoutPedigree(ped);
+    const svg = renderSvg(fam, ped, { validation, highlight: "orange" });
+    expect(svg).to.contain('<g class="individual problematic" data-id="SAM002">');
+    expect(svg).to.contain("<title>Person is used as both a mother and a father.\n&lt;escaped&gt; &amp; shown</title>");
+    expect(svg).to.contain('stroke="orange"');
+    expect(svg).to.contain('<g class="individual" data-id="SAM001">');
+  });
+});